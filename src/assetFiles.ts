@@ -0,0 +1,202 @@
+import { Plugin, Rollup } from "vite";
+import {
+    contentVersion,
+    IntegrityAlgorithm,
+    integrityHash,
+} from "./integrity.js";
+import { GlobalsConfig, wp_handles, wp_script_modules } from "./wpGlobals.js";
+
+type AstNode = { type?: string; [key: string]: unknown };
+
+type ImportKind = "static" | "dynamic";
+
+/**
+ * Record an import, letting a static import take precedence over a dynamic one.
+ */
+function addImport(
+    imports: Map<string, ImportKind>,
+    id: string,
+    kind: ImportKind
+): void {
+    if (kind === "static" || !imports.has(id)) {
+        imports.set(id, kind);
+    }
+}
+
+/**
+ * Collect the module ids imported by a parsed module, statically or dynamically.
+ */
+function collectImports(node: unknown, imports: Map<string, ImportKind>): void {
+    if (Array.isArray(node)) {
+        node.forEach((child) => collectImports(child, imports));
+        return;
+    }
+
+    if (node === null || typeof node !== "object") {
+        return;
+    }
+
+    const { type, source } = node as AstNode;
+    if (
+        (type === "ImportDeclaration" ||
+            type === "ExportNamedDeclaration" ||
+            type === "ExportAllDeclaration" ||
+            type === "ImportExpression") &&
+        typeof (source as AstNode | null)?.value === "string"
+    ) {
+        addImport(
+            imports,
+            (source as AstNode).value as string,
+            type === "ImportExpression" ? "dynamic" : "static"
+        );
+    }
+
+    Object.values(node).forEach((child) => collectImports(child, imports));
+}
+
+/**
+ * Render the dependency data as a PHP file in the same format as
+ * `@wordpress/dependency-extraction-webpack-plugin`.
+ */
+function renderAssetFile(
+    dependencies: string[],
+    moduleDependencies: [string, ImportKind][],
+    version: string,
+    integrity?: string
+): string {
+    const deps = dependencies.map((handle) => `'${handle}'`).join(", ");
+    const modules = moduleDependencies
+        .map(([id, kind]) => `['id' => '${id}', 'import' => '${kind}']`)
+        .join(", ");
+
+    return `<?php return ['dependencies' => [${deps}], ${
+        modules ? `'module_dependencies' => [${modules}], ` : ""
+    }'version' => '${version}'${
+        integrity ? `, 'integrity' => '${integrity}'` : ""
+    }];\n`;
+}
+
+/**
+ * Emit an `[name].asset.php` file for every entry, listing the script handles
+ * of the Wordpress externals it (and any chunk it imports) relies on, and the
+ * script modules it imports statically or dynamically, with the version and
+ * integrity hash of its code.
+ */
+export default function (
+    config: GlobalsConfig = {},
+    integrity: IntegrityAlgorithm | false = false
+): Plugin {
+    const handles = wp_handles(config);
+    const scriptModules = wp_script_modules(config);
+    const externalIds = [...Object.keys(handles), ...scriptModules];
+    const moduleDependencies = new Map<string, Map<string, ImportKind>>();
+
+    /**
+     * Roll up the dependencies of a chunk and every chunk it imports. Anything
+     * only reachable through a dynamic import is itself a dynamic dependency.
+     */
+    const chunkDependencies = (
+        chunk: Rollup.OutputChunk,
+        bundle: Rollup.OutputBundle,
+        dynamic: boolean,
+        dependencies: Map<string, ImportKind> = new Map(),
+        seen: Set<string> = new Set()
+    ): Map<string, ImportKind> => {
+        const key = `${chunk.fileName}:${dynamic}`;
+        if (seen.has(key)) {
+            return dependencies;
+        }
+        seen.add(key);
+
+        chunk.moduleIds.forEach((id) =>
+            moduleDependencies
+                .get(id)
+                ?.forEach((kind, dep) =>
+                    addImport(dependencies, dep, dynamic ? "dynamic" : kind)
+                )
+        );
+
+        const visit = (fileName: string, isDynamic: boolean) => {
+            const imported = bundle[fileName];
+            if (imported?.type === "chunk") {
+                chunkDependencies(
+                    imported,
+                    bundle,
+                    isDynamic,
+                    dependencies,
+                    seen
+                );
+            }
+        };
+        chunk.imports.forEach((fileName) => visit(fileName, dynamic));
+        chunk.dynamicImports.forEach((fileName) => visit(fileName, true));
+
+        return dependencies;
+    };
+
+    return {
+        name: "wordpress:asset-files",
+        apply: (_config, { command, isSsrBuild }) =>
+            command === "build" && !isSsrBuild,
+        transform(code, id) {
+            if (!externalIds.some((externalId) => code.includes(externalId))) {
+                return;
+            }
+
+            const imports = new Map<string, ImportKind>();
+            try {
+                collectImports(this.parse(code), imports);
+            } catch {
+                return;
+            }
+
+            const dependencies = new Map(
+                [...imports].filter(([imported]) =>
+                    externalIds.includes(imported)
+                )
+            );
+            if (dependencies.size) {
+                moduleDependencies.set(id, dependencies);
+            }
+        },
+        // After Vite has rewritten its preload markers, so the version and integrity hash are
+        // those of the code that is written
+        generateBundle: {
+            order: "post",
+            handler(_options, bundle) {
+                Object.values(bundle).forEach((chunk) => {
+                    // CSS-only entries leave an empty chunk that is never written
+                    if (
+                        chunk.type !== "chunk" ||
+                        !chunk.isEntry ||
+                        !chunk.code.trim()
+                    ) {
+                        return;
+                    }
+
+                    const dependencies = [
+                        ...chunkDependencies(chunk, bundle, false),
+                    ].sort(([a], [b]) => a.localeCompare(b));
+
+                    this.emitFile({
+                        type: "asset",
+                        fileName: `${chunk.name}.asset.php`,
+                        source: renderAssetFile(
+                            dependencies
+                                .filter(([id]) => id in handles)
+                                .map(([id]) => handles[id])
+                                .sort(),
+                            dependencies.filter(([id]) =>
+                                scriptModules.includes(id)
+                            ),
+                            contentVersion(chunk.code),
+                            integrity
+                                ? integrityHash(chunk.code, integrity)
+                                : undefined
+                        ),
+                    });
+                });
+            },
+        },
+    };
+}
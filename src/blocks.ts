@@ -0,0 +1,413 @@
+import {
+    existsSync,
+    mkdirSync,
+    readdirSync,
+    readFileSync,
+    writeFileSync,
+} from "node:fs";
+import { basename, dirname, extname, join, relative, resolve } from "node:path";
+import {
+    Plugin,
+    ResolvedConfig,
+    Rollup,
+    isCSSRequest,
+    normalizePath,
+} from "vite";
+import { readHotFile } from "./hotFile.js";
+import { IsolatedEntriesApi } from "./isolatedEntries.js";
+
+interface BlocksConfig {
+    /**
+     * The directory to scan for `block.json` files
+     */
+    directory: string;
+
+    /**
+     * The path to the "hot" file
+     */
+    hotFile: string;
+
+    /**
+     * The build directory the dev server's block.json files are written to
+     */
+    outDir: string;
+}
+
+interface BlockDefinition {
+    /**
+     * Absolute path to the block's source directory
+     */
+    directory: string;
+
+    /**
+     * The block directory relative to the blocks root, used for output paths
+     */
+    name: string;
+
+    /**
+     * The parsed contents of `block.json`
+     */
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * The `block.json` fields that may reference a `file:` asset to be compiled.
+ */
+const assetFields = [
+    "editorScript",
+    "script",
+    "viewScript",
+    "viewScriptModule",
+    "editorStyle",
+    "style",
+    "viewStyle",
+];
+
+/**
+ * The style field that CSS imported by a block script should be loaded through. Wordpress enqueues
+ * the scripts of these fields as classic scripts.
+ */
+const importedStyleFields: Record<string, string> = {
+    editorScript: "editorStyle",
+    script: "style",
+    viewScript: "viewStyle",
+};
+
+/**
+ * Recursively find every `block.json` below the given directory.
+ */
+export function discoverBlocks(directory: string): BlockDefinition[] {
+    const root = resolve(directory);
+    if (existsSync(root) === false) {
+        return [];
+    }
+
+    const walk = (dir: string): string[] =>
+        readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+            if (entry.isDirectory()) {
+                return entry.name === "node_modules"
+                    ? []
+                    : walk(join(dir, entry.name));
+            }
+
+            return entry.name === "block.json" ? [join(dir, entry.name)] : [];
+        });
+
+    return walk(root).map((path) => ({
+        directory: dirname(path),
+        name: normalizePath(relative(root, dirname(path))) || basename(root),
+        metadata: JSON.parse(readFileSync(path, "utf-8")),
+    }));
+}
+
+/**
+ * Apply the callback to every `file:` asset referenced by the block, returning the rewritten metadata.
+ */
+function mapBlockAssets(
+    block: BlockDefinition,
+    callback: (path: string, field: string) => string | undefined
+): Record<string, unknown> {
+    const metadata = { ...block.metadata };
+    const mapValue = (value: unknown, field: string) =>
+        typeof value === "string" && value.startsWith("file:")
+            ? callback(resolve(block.directory, value.slice(5)), field) ??
+              value
+            : value;
+
+    assetFields.forEach((field) => {
+        const value = metadata[field];
+        if (typeof value === "undefined") {
+            return;
+        }
+
+        metadata[field] = Array.isArray(value)
+            ? value.map((v) => mapValue(v, field))
+            : mapValue(value, field);
+    });
+
+    return metadata;
+}
+
+/**
+ * Resolve the named Rollup inputs for every `file:` asset referenced by the blocks. Assets of a block
+ * sharing a file name, like `index.js` and `index.css`, are told apart by their extension.
+ */
+export function resolveBlockInputs(
+    blocks: BlockDefinition[]
+): Record<string, string> {
+    const inputs: Record<string, string> = {};
+
+    blocks.forEach((block) => {
+        const paths = new Set<string>();
+        mapBlockAssets(block, (path) => {
+            paths.add(path);
+            return undefined;
+        });
+
+        const names = [...paths].map((path) => basename(path, extname(path)));
+        [...paths].forEach((path, index) => {
+            const name = names[index];
+            const unique =
+                names.indexOf(name) === names.lastIndexOf(name)
+                    ? name
+                    : `${name}-${extname(path).slice(1)}`;
+
+            inputs[`blocks/${block.name}/${unique}`] = path;
+        });
+    });
+
+    return inputs;
+}
+
+/**
+ * The scripts Wordpress enqueues as classic scripts, which are built as self-contained IIFE bundles
+ * as they can neither import shared chunks nor be imported from script modules.
+ */
+export function resolveBlockScripts(blocks: BlockDefinition[]): string[] {
+    const scripts = new Set<string>();
+
+    blocks.forEach((block) =>
+        mapBlockAssets(block, (path, field) => {
+            if (field in importedStyleFields) {
+                scripts.add(path);
+            }
+            return undefined;
+        })
+    );
+
+    return [...scripts];
+}
+
+/**
+ * Convert a build output path to a `file:` reference relative to the block's output directory.
+ */
+function toFileReference(block: BlockDefinition, fileName: string): string {
+    const path = normalizePath(relative(`blocks/${block.name}`, fileName));
+
+    return `file:${path.startsWith(".") ? path : `./${path}`}`;
+}
+
+/**
+ * Find the emitted file that was built from the given source path, given the CSS files emitted
+ * for the style entries by their paths.
+ */
+function findOutput(
+    bundle: Rollup.OutputBundle,
+    path: string,
+    root: string,
+    styleFiles: Map<string, string[]>
+): Rollup.OutputChunk | Rollup.OutputAsset | undefined {
+    const source = normalizePath(relative(root, path));
+
+    const outputs = Object.values(bundle);
+
+    return (
+        outputs.find(
+            (output) =>
+                output.type === "asset" &&
+                isCSSRequest(path) &&
+                ((output.originalFileNames ?? []).includes(source) ||
+                    styleFiles
+                        .get(normalizePath(path))
+                        ?.includes(output.fileName))
+        ) ??
+        outputs.find(
+            (output) =>
+                output.type === "chunk" &&
+                output.isEntry &&
+                normalizePath(output.facadeModuleId ?? "") ===
+                    normalizePath(path)
+        )
+    );
+}
+
+/**
+ * Compile the assets referenced by `block.json` files and write rewritten copies
+ * into the build directory so `register_block_type` can point at them directly.
+ */
+export default function (config: BlocksConfig): Plugin {
+    let resolvedConfig: ResolvedConfig;
+    const styleFiles = new Map<string, string[]>();
+
+    const writeDevBlocks = () => {
+        const hotFile = readHotFile(config.hotFile);
+        if (!hotFile) {
+            return;
+        }
+
+        const url = hotFile.url;
+        const outDir = resolve(config.outDir);
+
+        discoverBlocks(config.directory).forEach((block) => {
+            const metadata = mapBlockAssets(
+                block,
+                (path) =>
+                    `${url}/${normalizePath(relative(resolvedConfig.root, path))}`
+            );
+            const target = join(outDir, "blocks", block.name);
+
+            if (
+                typeof metadata.render === "string" &&
+                metadata.render.startsWith("file:")
+            ) {
+                metadata.render = `file:${normalizePath(
+                    relative(
+                        target,
+                        resolve(block.directory, metadata.render.slice(5))
+                    )
+                )}`;
+            }
+
+            mkdirSync(target, { recursive: true });
+            writeFileSync(
+                join(target, "block.json"),
+                JSON.stringify(metadata, null, 4)
+            );
+        });
+    };
+
+    return {
+        name: "wordpress:blocks",
+        enforce: "post",
+        configResolved(config) {
+            resolvedConfig = config;
+        },
+        configureServer(server) {
+            server.httpServer?.once("listening", writeDevBlocks);
+            server.watcher.on("change", (path) => {
+                if (basename(path) === "block.json") {
+                    writeDevBlocks();
+                }
+            });
+        },
+        // Vite before 6 records no source paths on the CSS it emits, and drops the chunks of the
+        // style entries before the bundle is generated
+        renderChunk(_code, chunk) {
+            if (
+                chunk.isEntry &&
+                chunk.facadeModuleId &&
+                isCSSRequest(chunk.facadeModuleId)
+            ) {
+                styleFiles.set(normalizePath(chunk.facadeModuleId), [
+                    ...(chunk.viteMetadata?.importedCss ?? []),
+                ]);
+            }
+        },
+        // After the asset files, so the copies next to the block scripts have their final hashes
+        generateBundle: {
+            order: "post",
+            handler(_options, bundle) {
+                if (resolvedConfig.build.ssr) {
+                    return;
+                }
+
+                const isolatedEntries = resolvedConfig.plugins.find(
+                    (plugin) => plugin.name === "wordpress:isolated-entries"
+                )?.api as IsolatedEntriesApi | undefined;
+
+                discoverBlocks(config.directory).forEach((block) => {
+                    const importedStyles: Record<string, string[]> = {};
+                    const metadata = mapBlockAssets(block, (path, field) => {
+                        // The classic scripts come from their own builds
+                        const isolated = isolatedEntries?.isolatedChunk(
+                            normalizePath(relative(resolvedConfig.root, path))
+                        );
+                        const output = isolated
+                            ? undefined
+                            : findOutput(
+                                  bundle,
+                                  path,
+                                  resolvedConfig.root,
+                                  styleFiles
+                              );
+                        const chunk = isolated
+                            ? {
+                                  fileName: isolated.file,
+                                  name: isolated.name,
+                                  css: isolated.css ?? [],
+                              }
+                            : output?.type === "chunk"
+                              ? {
+                                    fileName: output.fileName,
+                                    name: output.name,
+                                    css: [
+                                        ...(output.viteMetadata?.importedCss ??
+                                            []),
+                                    ],
+                                }
+                              : undefined;
+                        const fileName = chunk?.fileName ?? output?.fileName;
+                        if (!fileName) {
+                            this.warn(
+                                `Unable to find the build output for "${path}" referenced in ${block.name}/block.json`
+                            );
+                            return;
+                        }
+
+                        const assetFile = chunk
+                            ? bundle[`${chunk.name}.asset.php`]
+                            : undefined;
+                        if (chunk && assetFile?.type === "asset") {
+                            this.emitFile({
+                                type: "asset",
+                                fileName: chunk.fileName.replace(
+                                    /\.[cm]?js$/,
+                                    ".asset.php"
+                                ),
+                                source: assetFile.source,
+                            });
+                        }
+
+                        const styleField = importedStyleFields[field];
+                        if (chunk && styleField) {
+                            chunk.css.forEach((css) => {
+                                importedStyles[styleField] = [
+                                    ...(importedStyles[styleField] ?? []),
+                                    toFileReference(block, css),
+                                ];
+                            });
+                        }
+
+                        return toFileReference(block, fileName);
+                    });
+
+                    Object.entries(importedStyles).forEach(
+                        ([field, styles]) => {
+                            const existing = metadata[field] ?? [];
+                            metadata[field] = [
+                                ...new Set([
+                                    ...(Array.isArray(existing)
+                                        ? existing
+                                        : [existing]),
+                                    ...styles,
+                                ]),
+                            ];
+                        }
+                    );
+
+                    if (
+                        typeof metadata.render === "string" &&
+                        metadata.render.startsWith("file:")
+                    ) {
+                        const render = resolve(
+                            block.directory,
+                            metadata.render.slice(5)
+                        );
+                        this.emitFile({
+                            type: "asset",
+                            fileName: `blocks/${block.name}/${basename(render)}`,
+                            source: readFileSync(render),
+                        });
+                        metadata.render = `file:./${basename(render)}`;
+                    }
+
+                    this.emitFile({
+                        type: "asset",
+                        fileName: `blocks/${block.name}/block.json`,
+                        source: JSON.stringify(metadata, null, 4),
+                    });
+                });
+            },
+        },
+    };
+}
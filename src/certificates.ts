@@ -0,0 +1,287 @@
+import { spawnSync } from "node:child_process";
+import { X509Certificate } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { isIP } from "node:net";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { generate } from "selfsigned";
+
+/**
+ * Where a certificate was found.
+ */
+export type CertificateSource =
+    | "environment"
+    | "valet"
+    | "herd"
+    | "local"
+    | "ddev"
+    | "mkcert"
+    | "self-signed";
+
+export interface Certificate {
+    source: CertificateSource;
+
+    /**
+     * The path of the private key
+     */
+    key: string;
+
+    /**
+     * The path of the certificate
+     */
+    cert: string;
+}
+
+/**
+ * Certificates handed to dev servers, by their contents.
+ */
+const resolvedCertificates = new Map<string, Certificate>();
+
+/**
+ * The directory generated certificates are cached in.
+ */
+export function certificateCacheDirectory(): string {
+    return join(
+        process.env.XDG_CACHE_HOME ?? join(homedir(), ".cache"),
+        "wordpress-vite-plugin/certificates"
+    );
+}
+
+/**
+ * Find the certificate a dev server was given, when it was resolved by the plugin.
+ */
+export function findResolvedCertificate(
+    cert: unknown
+): Certificate | undefined {
+    return cert ? resolvedCertificates.get(String(cert)) : undefined;
+}
+
+/**
+ * Read the files of a certificate for a dev server, remembering it so its source can be reported.
+ */
+export function readCertificate(certificate: Certificate): {
+    key: Buffer;
+    cert: Buffer;
+} {
+    const cert = readFileSync(certificate.cert);
+    resolvedCertificates.set(String(cert), certificate);
+
+    return { key: readFileSync(certificate.key), cert };
+}
+
+/**
+ * The directories local development tools keep their certificates in, as `<host>.crt` and `<host>.key`.
+ */
+function toolDirectories(): [CertificateSource, string][] {
+    const home = homedir();
+    const appData = process.env.APPDATA ?? join(home, "AppData/Roaming");
+    const support = join(home, "Library/Application Support");
+
+    return [
+        ["valet", join(home, ".config/valet/Certificates")],
+        ["valet", join(home, ".valet/Certificates")],
+        ["herd", join(support, "Herd/config/valet/Certificates")],
+        ["herd", join(home, ".config/herd/config/valet/Certificates")],
+        ["local", join(support, "Local/run/router/nginx/certs")],
+        ["local", join(appData, "Local/run/router/nginx/certs")],
+        ["local", join(home, ".config/Local/run/router/nginx/certs")],
+    ];
+}
+
+/**
+ * Whether a certificate file is valid for the host for at least another day.
+ */
+function isUsable(path: string, host: string): boolean {
+    try {
+        const cert = new X509Certificate(readFileSync(path));
+
+        return (
+            new Date(cert.validTo).getTime() > Date.now() + 86400000 &&
+            (isIP(host) ? !!cert.checkIP(host) : !!cert.checkHost(host))
+        );
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Look for a certificate of the host in the places Valet, Herd, Local, DDEV and mkcert put them.
+ */
+export function discoverCertificate(
+    host: string,
+    root: string
+): Certificate | undefined {
+    const candidates: Certificate[] = toolDirectories().map(
+        ([source, directory]) => ({
+            source,
+            key: join(directory, `${host}.key`),
+            cert: join(directory, `${host}.crt`),
+        })
+    );
+
+    // DDEV names certificates after the project, which is the first label of its host names
+    const project = host.split(".")[0];
+    for (let directory = root; ; directory = dirname(directory)) {
+        candidates.push({
+            source: "ddev",
+            key: join(directory, `.ddev/traefik/certs/${project}.key`),
+            cert: join(directory, `.ddev/traefik/certs/${project}.crt`),
+        });
+
+        if (dirname(directory) === directory) {
+            break;
+        }
+    }
+    candidates.push({
+        source: "ddev",
+        key: join(homedir(), `.ddev/traefik/certs/${project}.key`),
+        cert: join(homedir(), `.ddev/traefik/certs/${project}.crt`),
+    });
+
+    // Running `mkcert <host>` in the project writes the certificate next to it
+    candidates.push({
+        source: "mkcert",
+        key: join(root, `${host}-key.pem`),
+        cert: join(root, `${host}.pem`),
+    });
+
+    return candidates.find(
+        (candidate) =>
+            existsSync(candidate.key) && isUsable(candidate.cert, host)
+    );
+}
+
+/**
+ * Whether the mkcert binary is on the path.
+ */
+export function isMkcertInstalled(): boolean {
+    return spawnSync("mkcert", ["-CAROOT"], { stdio: "ignore" }).status === 0;
+}
+
+/**
+ * Generate a certificate for the host with mkcert, signed by its certificate authority.
+ */
+function generateMkcertCertificate(
+    host: string,
+    certificate: Certificate
+): boolean {
+    const result = spawnSync(
+        "mkcert",
+        [
+            "-cert-file",
+            certificate.cert,
+            "-key-file",
+            certificate.key,
+            ...new Set([host, "localhost", "127.0.0.1"]),
+        ],
+        { stdio: "ignore" }
+    );
+
+    return result.status === 0 && existsSync(certificate.cert);
+}
+
+/**
+ * Generate a self-signed certificate for the host.
+ */
+function generateSelfSignedCertificate(
+    host: string,
+    certificate: Certificate
+): void {
+    const { private: key, cert } = generate(
+        [
+            { name: "commonName", value: host },
+            {
+                name: "organizationName",
+                value: "wordpress-vite-plugin development certificate",
+            },
+        ],
+        {
+            days: 365,
+            keySize: 2048,
+            algorithm: "sha256",
+            extensions: [
+                { name: "basicConstraints", cA: false, critical: true },
+                {
+                    name: "keyUsage",
+                    digitalSignature: true,
+                    keyEncipherment: true,
+                    critical: true,
+                },
+                { name: "extKeyUsage", serverAuth: true },
+                {
+                    name: "subjectAltName",
+                    altNames: [
+                        ...new Set([host, "localhost", "127.0.0.1"]),
+                    ].map((value) =>
+                        isIP(value)
+                            ? { type: 7, ip: value }
+                            : { type: 2, value }
+                    ),
+                },
+            ],
+        }
+    );
+
+    writeFileSync(certificate.key, key, { mode: 0o600 });
+    writeFileSync(certificate.cert, cert);
+}
+
+/**
+ * The certificates generated for the host in the cache directory, by mkcert or self-signed.
+ */
+function generatedCertificates(host: string): Certificate[] {
+    const directory = certificateCacheDirectory();
+    const file = host.replace(/[^\w.-]/g, "_");
+
+    return (["mkcert", "self-signed"] as const).map((source) => ({
+        source,
+        key: join(directory, `${file}-${source}.key`),
+        cert: join(directory, `${file}-${source}.crt`),
+    }));
+}
+
+/**
+ * Find a certificate generated for the host earlier, that is still valid.
+ */
+export function cachedCertificate(host: string): Certificate | undefined {
+    return generatedCertificates(host).find(
+        (certificate) =>
+            existsSync(certificate.key) && isUsable(certificate.cert, host)
+    );
+}
+
+/**
+ * Generate a certificate for the host in the cache directory with mkcert when it is installed, so
+ * browsers trust it once `mkcert -install` has run, or else a self-signed one. Cached certificates
+ * are reused.
+ */
+function generateCertificate(host: string): Certificate {
+    const cached = cachedCertificate(host);
+    if (cached) {
+        return cached;
+    }
+
+    const [mkcert, selfSigned] = generatedCertificates(host);
+    mkdirSync(certificateCacheDirectory(), { recursive: true });
+
+    if (generateMkcertCertificate(host, mkcert)) {
+        return mkcert;
+    }
+
+    generateSelfSignedCertificate(host, selfSigned);
+
+    return selfSigned;
+}
+
+/**
+ * Resolve the certificate for the host: the one of the local development tool serving the site,
+ * or else one generated in the cache directory.
+ */
+export function resolveCertificate(
+    host: string,
+    root: string = process.cwd()
+): Certificate {
+    return (
+        discoverCertificate(host, resolve(root)) ?? generateCertificate(host)
+    );
+}
@@ -0,0 +1,215 @@
+import { resolve } from "node:path";
+import { isCSSRequest, Plugin, ResolvedConfig, Rollup } from "vite";
+import { EntryContext, InputConfig, resolveEntries } from "./entries.js";
+import { isClientBuild, ManifestApi } from "./manifest.js";
+
+/**
+ * How modules are grouped into shared chunks.
+ *
+ * - `vendor` puts every dependency from `node_modules` into one chunk
+ * - `package` gives each dependency its own chunk
+ * - `context` groups the dependencies by the contexts of the entries importing them, so admin
+ *   entries don't load the dependencies only front end entries use and the reverse
+ * - `shared` groups the modules imported by at least `minEntries` entries
+ */
+export type ChunkStrategy = "vendor" | "package" | "context" | "shared";
+
+export interface ChunksConfig {
+    strategy: ChunkStrategy;
+
+    /**
+     * How many entries have to import a module for the `shared` strategy to group it
+     *
+     * @default 2
+     */
+    minEntries?: number;
+
+    /**
+     * Start another chunk of a group once it holds this many bytes of code
+     */
+    maxSize?: number;
+}
+
+type ModuleInfoGetter = (moduleId: string) => Rollup.ModuleInfo | null;
+
+/**
+ * The package a module from `node_modules` belongs to, e.g. "@wordpress/icons".
+ */
+function packageName(id: string): string | undefined {
+    const match = id
+        .replace(/\\/g, "/")
+        .match(/.*\/node_modules\/((?:@[^/]+\/)?[^/]+)/);
+
+    return match?.[1];
+}
+
+/**
+ * The entries a module is reachable from, statically or dynamically.
+ */
+function importingEntries(
+    id: string,
+    getModuleInfo: ModuleInfoGetter
+): Set<string> {
+    const entries = new Set<string>();
+    const seen = new Set([id]);
+    const queue = [id];
+
+    for (let next = queue.pop(); next; next = queue.pop()) {
+        const info = getModuleInfo(next);
+        if (info?.isEntry) {
+            entries.add(next);
+        }
+
+        [...(info?.importers ?? []), ...(info?.dynamicImporters ?? [])]
+            .filter((importer) => !seen.has(importer))
+            .forEach((importer) => {
+                seen.add(importer);
+                queue.push(importer);
+            });
+    }
+
+    return entries;
+}
+
+/**
+ * The group of a module under the strategy, or undefined to leave it to the default code splitting.
+ */
+function chunkGroup(
+    id: string,
+    config: Required<ChunksConfig>,
+    contexts: Map<string, EntryContext[]>,
+    getModuleInfo: ModuleInfoGetter
+): string | undefined {
+    const pkg = packageName(id);
+
+    if (config.strategy === "vendor") {
+        return pkg ? "vendor" : undefined;
+    }
+
+    if (config.strategy === "package") {
+        return pkg
+            ? `vendor-${pkg.replace(/^@/, "").replace("/", "-")}`
+            : undefined;
+    }
+
+    if (getModuleInfo(id)?.isEntry) {
+        return;
+    }
+
+    const entries = importingEntries(id, getModuleInfo);
+
+    if (config.strategy === "shared") {
+        return entries.size >= config.minEntries ? "shared" : undefined;
+    }
+
+    if (!pkg) {
+        return;
+    }
+
+    // Dependencies of entries without a context may be loaded anywhere
+    if (![...entries].every((entry) => contexts.get(entry)?.length)) {
+        return "vendor";
+    }
+
+    return `vendor-${[
+        ...new Set([...entries].flatMap((entry) => contexts.get(entry) ?? [])),
+    ]
+        .sort()
+        .join("-")}`;
+}
+
+/**
+ * Group modules into shared chunks by the strategy, and record a script handle for each chunk in the
+ * manifest so the PHP loader registers it once for every entry importing it.
+ */
+export default function (
+    chunks: ChunksConfig,
+    input: InputConfig,
+    namespace: string
+): Plugin<ManifestApi> {
+    const config: Required<ChunksConfig> = {
+        minEntries: 2,
+        maxSize: Infinity,
+        ...chunks,
+    };
+    const groups = new Set<string>();
+    const moduleSizes = new Map<string, number>();
+    let resolvedConfig: ResolvedConfig;
+
+    return {
+        name: "wordpress:chunks",
+        apply: isClientBuild,
+        configResolved(resolved) {
+            resolvedConfig = resolved;
+        },
+        transform: {
+            order: "post",
+            handler(code, id) {
+                // Rolldown leaves the code out of the module info manualChunks gets
+                moduleSizes.set(id, code.length);
+            },
+        },
+        outputOptions(options) {
+            if (options.manualChunks) {
+                return;
+            }
+
+            const contexts = new Map(
+                Object.values(resolveEntries(input)).map((entry) => [
+                    resolve(resolvedConfig.root, entry.path),
+                    [entry.context ?? []].flat(),
+                ])
+            );
+            const sizes = new Map<string, { index: number; size: number }>();
+
+            return {
+                ...options,
+                manualChunks(id, { getModuleInfo }) {
+                    if (isCSSRequest(id)) {
+                        return;
+                    }
+
+                    const group = chunkGroup(
+                        id,
+                        config,
+                        contexts,
+                        getModuleInfo
+                    );
+                    if (!group) {
+                        return;
+                    }
+
+                    const size = moduleSizes.get(id) ?? 0;
+                    const bin = sizes.get(group) ?? { index: 1, size: 0 };
+                    if (bin.size > 0 && bin.size + size > config.maxSize) {
+                        bin.index++;
+                        bin.size = 0;
+                    }
+                    bin.size += size;
+                    sizes.set(group, bin);
+
+                    const name =
+                        bin.index > 1 ? `${group}-${bin.index}` : group;
+                    groups.add(name);
+
+                    return name;
+                },
+            };
+        },
+        api: {
+            manifest(manifest) {
+                Object.values(manifest).forEach((chunk) => {
+                    if (
+                        !chunk.isEntry &&
+                        chunk.name &&
+                        groups.has(chunk.name)
+                    ) {
+                        Object.assign(chunk, {
+                            handle: `${namespace}-chunk-${chunk.name}`,
+                        });
+                    }
+                });
+            },
+        },
+    };
+}
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { formatResults, runDoctor } from "./doctor.js";
+import { defaultSsrPort, findSsrBundle, startSsrServer } from "./ssrServer.js";
+
+const usage = `Usage: wordpress-vite <command> [options]
+
+Commands:
+  ssr [bundle]    Serve rendered pages from the SSR bundle
+                  (default: the single .mjs file in bootstrap/ssr)
+  doctor          Check the local setup and suggest fixes, exiting
+                  non-zero when a check fails
+
+Options:
+  --port <port>   The port the SSR server listens on (default: ${defaultSsrPort})
+  --host <host>   The host the SSR server listens on (default: 127.0.0.1)
+  --config <file> The Vite config file the doctor loads (default: found in
+                  the working directory)
+  --mode <mode>   The mode the doctor loads the config in (default: development)
+  --help          Show this message
+`;
+
+async function main(): Promise<void> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            port: { type: "string" },
+            host: { type: "string" },
+            config: { type: "string" },
+            mode: { type: "string" },
+            help: { type: "boolean" },
+        },
+    });
+    const [command, ...args] = positionals;
+
+    if (values.help || !command) {
+        console.info(usage);
+        return;
+    }
+
+    if (command === "ssr") {
+        const bundle = args[0] ?? findSsrBundle("bootstrap/ssr");
+        if (!bundle) {
+            throw new Error(
+                "wordpress-vite-plugin: pass the path of the SSR bundle, e.g. wordpress-vite ssr bootstrap/ssr/ssr.mjs"
+            );
+        }
+
+        await startSsrServer({
+            bundle,
+            port: values.port ? Number(values.port) : undefined,
+            host: values.host,
+        });
+        return;
+    }
+
+    if (command === "doctor") {
+        const results = await runDoctor({
+            configFile: values.config,
+            mode: values.mode,
+        });
+
+        console.info(formatResults(results));
+        process.exitCode = results.some((result) => result.status === "fail")
+            ? 1
+            : 0;
+        return;
+    }
+
+    console.error(`Unknown command "${command}".\n\n${usage}`);
+    process.exitCode = 1;
+}
+
+main().catch((e) => {
+    console.error((e as Error).message);
+    process.exit(1);
+});
@@ -0,0 +1,361 @@
+import { readFileSync } from "node:fs";
+import { ModuleNode, Plugin, Rollup, ViteDevServer } from "vite";
+import { GlobalsConfig, wp_globals, wp_handles } from "./wpGlobals.js";
+
+type AstNode = { type?: string; [key: string]: unknown };
+
+const shimPrefix = "\0wordpress-global:";
+
+const jsxDevRuntime = "react/jsx-dev-runtime";
+
+/**
+ * The development JSX runtime, mapped onto Wordpress's production runtime so that
+ * JSX compiled in dev mode renders through the same React instance.
+ */
+const jsxDevRuntimeShim = `const runtime = window.ReactJSXRuntime;
+export const Fragment = runtime.Fragment;
+export function jsxDEV(type, props, key, isStaticChildren) {
+    return (isStaticChildren ? runtime.jsxs : runtime.jsx)(type, props, key);
+}`;
+
+/**
+ * Collect the names imported from each of the given module ids.
+ */
+function collectImportedNames(
+    program: AstNode,
+    ids: string[]
+): Map<string, Set<string>> {
+    const imported = new Map<string, Set<string>>();
+    const add = (id: string, name: string) =>
+        imported.set(id, (imported.get(id) ?? new Set()).add(name));
+
+    (program.body as AstNode[]).forEach((node) => {
+        const source = (node.source as AstNode | null)?.value;
+        if (typeof source !== "string" || !ids.includes(source)) {
+            return;
+        }
+
+        imported.set(source, imported.get(source) ?? new Set());
+
+        ((node.specifiers as AstNode[] | undefined) ?? []).forEach(
+            (specifier) => {
+                const name =
+                    specifier.type === "ImportSpecifier"
+                        ? (specifier.imported as AstNode)
+                        : specifier.type === "ExportSpecifier"
+                          ? (specifier.local as AstNode)
+                          : undefined;
+
+                if (name) {
+                    add(source, (name.name ?? name.value) as string);
+                }
+            }
+        );
+    });
+
+    return imported;
+}
+
+/**
+ * Point the namespace imports and exports of the given module ids at the default export of their
+ * shim, which is the whole window global, as a shim can only export names it knows of.
+ */
+function rewriteNamespaces(
+    code: string,
+    program: AstNode,
+    ids: string[]
+): string | undefined {
+    const replacements: [number, number, string][] = [];
+
+    (program.body as AstNode[]).forEach((node) => {
+        const source = (node.source as AstNode | null)?.value;
+        if (typeof source !== "string" || !ids.includes(source)) {
+            return;
+        }
+
+        if (node.type === "ExportAllDeclaration" && node.exported) {
+            const exported = node.exported as AstNode;
+            replacements.push([
+                node.start as number,
+                node.end as number,
+                `export { default as ${(exported.name ?? exported.raw) as string} } from ${JSON.stringify(source)};`,
+            ]);
+        }
+
+        ((node.specifiers as AstNode[] | undefined) ?? []).forEach(
+            (specifier) => {
+                if (specifier.type === "ImportNamespaceSpecifier") {
+                    replacements.push([
+                        specifier.start as number,
+                        specifier.end as number,
+                        `{ default as ${(specifier.local as AstNode).name as string} }`,
+                    ]);
+                }
+            }
+        );
+    });
+
+    return replacements.length
+        ? replacements
+              .sort(([a], [b]) => b - a)
+              .reduce(
+                  (rewritten, [start, end, replacement]) =>
+                      rewritten.slice(0, start) +
+                      replacement +
+                      rewritten.slice(end),
+                  code
+              )
+        : undefined;
+}
+
+/**
+ * The module ids the program re-exports all the names of, with `export * from`.
+ */
+function starExports(program: AstNode, ids?: string[]): string[] {
+    return (program.body as AstNode[]).flatMap((node) => {
+        const source = (node.source as AstNode | null)?.value;
+
+        return node.type === "ExportAllDeclaration" &&
+            !node.exported &&
+            typeof source === "string" &&
+            (!ids || ids.includes(source))
+            ? [source]
+            : [];
+    });
+}
+
+/**
+ * The names the installed package of a Wordpress external exports from its ES module build, for
+ * the shim of a module re-exported with `export * from`. Empty when the package isn't installed.
+ */
+async function packageExports(
+    context: Rollup.PluginContext,
+    id: string,
+    importer: string
+): Promise<string[]> {
+    const names = new Set<string>();
+    const seen = new Set<string>();
+
+    const collect = async (source: string, from: string) => {
+        const resolved = await context.resolve(source, from, {
+            skipSelf: true,
+        });
+        const file = resolved?.id.split("?")[0];
+        if (!file || resolved?.external || seen.has(file)) {
+            return;
+        }
+        seen.add(file);
+
+        let program: AstNode;
+        try {
+            program = context.parse(
+                readFileSync(file, "utf-8")
+            ) as unknown as AstNode;
+        } catch {
+            return;
+        }
+
+        (program.body as AstNode[]).forEach((node) => {
+            if (node.type !== "ExportNamedDeclaration") {
+                return;
+            }
+
+            const declaration = node.declaration as AstNode | null;
+            const declared = declaration?.id
+                ? [declaration.id as AstNode]
+                : ((declaration?.declarations as AstNode[] | undefined) ?? [])
+                      .map((declarator) => declarator.id as AstNode)
+                      .filter((name) => name.type === "Identifier");
+            const exported = (
+                (node.specifiers as AstNode[] | undefined) ?? []
+            ).map((specifier) => specifier.exported as AstNode);
+
+            [...declared, ...exported].forEach((name) =>
+                names.add((name.name ?? name.value) as string)
+            );
+        });
+
+        for (const star of starExports(program)) {
+            await collect(star, file);
+        }
+    };
+
+    await collect(id, importer);
+    names.delete("default");
+
+    return [...names];
+}
+
+/**
+ * Render a module re-exporting the given names from a window global.
+ */
+function renderShim(global: string, names: Set<string>): string {
+    const exports = [...names].filter((name) => name !== "default");
+
+    return [
+        `const module = window.${global};`,
+        "export default module;",
+        ...exports.map(
+            (name, i) =>
+                `const __wp_${i} = module[${JSON.stringify(name)}];\nexport { __wp_${i} as ${name} };`
+        ),
+    ].join("\n");
+}
+
+/**
+ * The script handles of the Wordpress externals each entry imports, directly or through the modules
+ * it imports, keyed like the given dev server URLs. The entries are transformed the way the browser
+ * requests them, so the handles can be enqueued before the shims read their window globals.
+ */
+export async function entryHandles(
+    server: ViteDevServer,
+    urls: Record<string, string>,
+    config: GlobalsConfig = {}
+): Promise<Record<string, string[]>> {
+    const handles = wp_handles(config);
+    const handleOf = (id: string) =>
+        handles[id === jsxDevRuntime ? "react/jsx-runtime" : id];
+
+    const collect = async (url: string) => {
+        const found = new Set<string>();
+        const seen = new Set<ModuleNode>();
+
+        await server.transformRequest(url);
+        const queue = [await server.moduleGraph.getModuleByUrl(url)];
+
+        for (let module = queue.pop(); module; module = queue.pop()) {
+            for (const imported of module.importedModules) {
+                if (seen.has(imported)) {
+                    continue;
+                }
+                seen.add(imported);
+
+                if (imported.id?.startsWith(shimPrefix)) {
+                    const handle = handleOf(
+                        imported.id.slice(shimPrefix.length)
+                    );
+                    if (handle) {
+                        found.add(handle);
+                    }
+                    continue;
+                }
+
+                if (!imported.transformResult) {
+                    await server.transformRequest(imported.url);
+                }
+                queue.push(imported);
+            }
+        }
+
+        return [...found].sort();
+    };
+
+    const entries = await Promise.all(
+        Object.entries(urls).map(async ([key, url]) => {
+            try {
+                return [key, await collect(url)] as const;
+            } catch {
+                // The error overlay reports broken modules once the browser requests them
+                return [key, []] as const;
+            }
+        })
+    );
+
+    return Object.fromEntries(entries.filter(([, found]) => found.length));
+}
+
+/**
+ * Serve the Wordpress externals as virtual modules re-exporting from the window globals,
+ * so the dev server uses the same instances as Wordpress and the production build.
+ */
+export default function (config: GlobalsConfig = {}): Plugin {
+    const globals = wp_globals(config);
+    const ids = Object.keys(globals);
+    const shimJsxDevRuntime = "react/jsx-runtime" in globals;
+    const importedNames = new Map<string, Set<string>>();
+    let server: ViteDevServer | undefined;
+
+    return {
+        name: "wordpress:dev-globals",
+        apply: "serve",
+        config: () => ({
+            optimizeDeps: {
+                exclude: shimJsxDevRuntime ? [...ids, jsxDevRuntime] : ids,
+            },
+        }),
+        configureServer(devServer) {
+            server = devServer;
+        },
+        resolveId: {
+            order: "pre",
+            handler(id) {
+                if (
+                    id in globals ||
+                    (shimJsxDevRuntime && id === jsxDevRuntime)
+                ) {
+                    return `${shimPrefix}${id}`;
+                }
+            },
+        },
+        load(id) {
+            if (id.startsWith(shimPrefix)) {
+                const module = id.slice(shimPrefix.length);
+                if (module === jsxDevRuntime) {
+                    return jsxDevRuntimeShim;
+                }
+
+                return renderShim(
+                    globals[module],
+                    importedNames.get(module) ?? new Set()
+                );
+            }
+        },
+        async transform(code, id) {
+            if (
+                id.startsWith(shimPrefix) ||
+                !ids.some((externalId) => code.includes(externalId))
+            ) {
+                return;
+            }
+
+            let program: AstNode;
+            try {
+                program = this.parse(code) as unknown as AstNode;
+            } catch {
+                return;
+            }
+
+            const imported = collectImportedNames(program, ids);
+            for (const module of starExports(program, ids)) {
+                imported.set(
+                    module,
+                    new Set([
+                        ...(imported.get(module) ?? []),
+                        ...(await packageExports(this, module, id)),
+                    ])
+                );
+            }
+
+            for (const [module, names] of imported) {
+                const known = importedNames.get(module) ?? new Set();
+                const added = [...names].filter((name) => !known.has(name));
+                if (!importedNames.has(module) || added.length) {
+                    importedNames.set(module, new Set([...known, ...names]));
+
+                    // Reload an already served shim so its new exports are picked up
+                    const shim = server?.moduleGraph.getModuleById(
+                        `${shimPrefix}${module}`
+                    );
+                    if (shim && added.length) {
+                        await server?.reloadModule(shim);
+                    }
+                }
+            }
+
+            const rewritten = rewriteNamespaces(code, program, ids);
+            if (rewritten) {
+                return { code: rewritten, map: null };
+            }
+        },
+    };
+}
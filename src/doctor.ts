@@ -0,0 +1,439 @@
+import { accessSync, constants, existsSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import colors from "picocolors";
+import { loadEnv, ResolvedConfig, resolveConfig } from "vite";
+import {
+    cachedCertificate,
+    discoverCertificate,
+    isMkcertInstalled,
+} from "./certificates.js";
+import { isHotFileStale, readHotFile } from "./hotFile.js";
+import { WordpressLayout } from "./wpEnvironment.js";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface CheckResult {
+    /**
+     * What was checked, e.g. the environment variable or the project
+     */
+    name: string;
+    status: CheckStatus;
+    message: string;
+
+    /**
+     * How to resolve a warning or failure
+     */
+    fix?: string;
+}
+
+export interface DoctorConfig {
+    /**
+     * The path of the Vite config file, found in the working directory when omitted
+     */
+    configFile?: string;
+
+    /**
+     * @default 'development'
+     */
+    mode?: string;
+}
+
+/**
+ * The parts of a project's resolved configuration the checks look at.
+ */
+interface ProjectConfig {
+    namespace: string;
+    publicDirectory: string;
+    hotFile: string;
+    https: boolean | "auto";
+    wordpress: WordpressLayout;
+}
+
+type CorsOrigin =
+    | boolean
+    | string
+    | RegExp
+    | (string | RegExp)[]
+    | ((...args: never[]) => unknown)
+    | undefined;
+
+/**
+ * Check the environment variables the dev server reads before it starts.
+ */
+function checkEnvironment(env: Record<string, string>): CheckResult[] {
+    const results: CheckResult[] = [];
+
+    if (
+        typeof env.CI !== "undefined" &&
+        env.WORDPRESS_BYPASS_ENV_CHECK !== "1"
+    ) {
+        results.push({
+            name: "Environment",
+            status: "warn",
+            message: "CI is set, so the dev server refuses to start.",
+            fix: "Unset CI, or set WORDPRESS_BYPASS_ENV_CHECK=1 to serve anyway.",
+        });
+    } else {
+        results.push({
+            name: "Environment",
+            status: "pass",
+            message: "The dev server may run here.",
+        });
+    }
+
+    if (!env.APP_URL) {
+        results.push({
+            name: "APP_URL",
+            status: "warn",
+            message: "APP_URL is not set.",
+            fix: "Add the URL of the Wordpress site to .env, e.g. APP_URL=https://example.test",
+        });
+    } else {
+        try {
+            new URL(env.APP_URL);
+            results.push({
+                name: "APP_URL",
+                status: "pass",
+                message: env.APP_URL,
+            });
+        } catch {
+            results.push({
+                name: "APP_URL",
+                status: "fail",
+                message: `Unable to parse [${env.APP_URL}] as a URL.`,
+                fix: "Set APP_URL to an absolute URL including the scheme, e.g. APP_URL=https://example.test",
+            });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Check the certificate the dev server serves HTTPS with, without generating one.
+ */
+function checkCertificate(
+    env: Record<string, string>,
+    https: boolean | "auto",
+    root: string
+): CheckResult | undefined {
+    const key = env.VITE_DEV_SERVER_KEY;
+    const cert = env.VITE_DEV_SERVER_CERT;
+
+    if (key || cert) {
+        const missing = [
+            ["VITE_DEV_SERVER_KEY", key],
+            ["VITE_DEV_SERVER_CERT", cert],
+        ].filter(([, path]) => !path || !existsSync(path));
+
+        return missing.length
+            ? {
+                  name: "Certificate",
+                  status: "fail",
+                  message: `Unable to find ${missing
+                      .map(([name, path]) => `${name}: [${path ?? ""}]`)
+                      .join(" and ")}.`,
+                  fix: "Point VITE_DEV_SERVER_KEY and VITE_DEV_SERVER_CERT at the key and certificate of the site.",
+              }
+            : {
+                  name: "Certificate",
+                  status: "pass",
+                  message: `Serving over HTTPS with ${cert}`,
+              };
+    }
+
+    let appUrl: URL;
+    try {
+        appUrl = new URL(env.APP_URL);
+    } catch {
+        // The APP_URL check reports it
+        return;
+    }
+
+    if (https === false || (https === "auto" && appUrl.protocol !== "https:")) {
+        return {
+            name: "Certificate",
+            status: "pass",
+            message: "No certificate is needed.",
+        };
+    }
+
+    const host = appUrl.hostname;
+    const certificate =
+        discoverCertificate(host, root) ??
+        (https === true ? cachedCertificate(host) : undefined);
+
+    if (certificate?.source === "self-signed") {
+        return {
+            name: "Certificate",
+            status: "warn",
+            message: `No trusted certificate was found for ${host}, so a self-signed one is used and browsers block the dev server's scripts until it is accepted.`,
+            fix: "Install mkcert and run `mkcert -install`, then delete the self-signed certificate to have a trusted one generated, or set VITE_DEV_SERVER_KEY and VITE_DEV_SERVER_CERT.",
+        };
+    }
+
+    if (certificate) {
+        return {
+            name: "Certificate",
+            status: "pass",
+            message: `Serving over HTTPS with the ${certificate.source} certificate ${certificate.cert}`,
+        };
+    }
+
+    if (https === "auto") {
+        return {
+            name: "Certificate",
+            status: "pass",
+            message: `No certificate was found for ${host}, so the dev server serves over HTTP.`,
+        };
+    }
+
+    return isMkcertInstalled()
+        ? {
+              name: "Certificate",
+              status: "pass",
+              message: `A certificate for ${host} is generated with mkcert when the dev server starts.`,
+          }
+        : {
+              name: "Certificate",
+              status: "warn",
+              message: `No certificate was found for ${host}, so a self-signed one is generated and browsers block the dev server's scripts until it is accepted.`,
+              fix: "Install mkcert and run `mkcert -install` to have a trusted certificate generated, or set VITE_DEV_SERVER_KEY and VITE_DEV_SERVER_CERT.",
+          };
+}
+
+/**
+ * Whether a CORS origin setting allows the origin. Undefined when a callback decides.
+ */
+function isOriginAllowed(
+    allowed: CorsOrigin,
+    origin: string
+): boolean | undefined {
+    if (typeof allowed === "function") {
+        return;
+    }
+
+    if (typeof allowed === "boolean" || typeof allowed === "undefined") {
+        return allowed !== false;
+    }
+
+    return (Array.isArray(allowed) ? allowed : [allowed]).some((entry) =>
+        typeof entry === "string" ? entry === origin : entry.test(origin)
+    );
+}
+
+/**
+ * Check the dev server's CORS allow-list admits the Wordpress site.
+ */
+function checkCors(
+    config: ResolvedConfig,
+    env: Record<string, string>
+): CheckResult | undefined {
+    let origin: string;
+    try {
+        origin = new URL(env.APP_URL).origin;
+    } catch {
+        return;
+    }
+
+    const cors = config.server.cors;
+    const allowed =
+        typeof cors === "object"
+            ? isOriginAllowed(cors.origin as CorsOrigin, origin)
+            : cors !== false;
+
+    if (typeof allowed === "undefined") {
+        return {
+            name: "CORS",
+            status: "warn",
+            message: `server.cors.origin is a function, so whether it allows ${origin} is unknown.`,
+            fix: `Make sure the callback allows ${origin}.`,
+        };
+    }
+
+    return allowed
+        ? {
+              name: "CORS",
+              status: "pass",
+              message: `The dev server allows requests from ${origin}`,
+          }
+        : {
+              name: "CORS",
+              status: "fail",
+              message: `The dev server blocks requests from ${origin}, so the site cannot load its scripts.`,
+              fix: `Add "${origin}" to server.cors.origin in the Vite config, without a trailing slash.`,
+          };
+}
+
+/**
+ * Check a project can find Wordpress and serve from its public directory.
+ */
+async function checkProject(project: ProjectConfig): Promise<CheckResult[]> {
+    const name = (check: string) => `${project.namespace}: ${check}`;
+    const results: CheckResult[] = [];
+
+    results.push(
+        project.wordpress.coreDirectory
+            ? {
+                  name: name("Wordpress"),
+                  status: "pass",
+                  message: `${project.wordpress.type} installation at ${project.wordpress.coreDirectory}`,
+              }
+            : {
+                  name: name("Wordpress"),
+                  status: "fail",
+                  message:
+                      "Unable to find Wordpress core in any parent directory.",
+                  fix: "Set the wordpress.root option to the directory holding wp-load.php.",
+              }
+    );
+
+    // The directory is created when the dev server or build starts, so check the nearest one that exists
+    let directory = resolve(project.publicDirectory);
+    while (!existsSync(directory) && dirname(directory) !== directory) {
+        directory = dirname(directory);
+    }
+
+    try {
+        accessSync(directory, constants.W_OK);
+        results.push({
+            name: name("Public directory"),
+            status: "pass",
+            message: project.publicDirectory,
+        });
+    } catch {
+        results.push({
+            name: name("Public directory"),
+            status: "fail",
+            message: `${directory} is not writable, so the hot file and build cannot be written.`,
+            fix: `Make ${directory} writable by the current user, or set the publicDirectory option.`,
+        });
+    }
+
+    const hotFile = readHotFile(project.hotFile);
+    if (!hotFile) {
+        results.push({
+            name: name("Hot file"),
+            status: "pass",
+            message: "No dev server is running.",
+        });
+    } else if (await isHotFileStale(project.hotFile)) {
+        results.push({
+            name: name("Hot file"),
+            status: "warn",
+            message: `${project.hotFile} points at ${hotFile.url}, which is not running, so the site may load scripts from it.`,
+            fix: `Delete ${project.hotFile}, or start the dev server.`,
+        });
+    } else {
+        results.push({
+            name: name("Hot file"),
+            status: "pass",
+            message: `A dev server is running at ${hotFile.url}`,
+        });
+    }
+
+    return results;
+}
+
+/**
+ * Load the project's Vite config and check the environment, CORS and every Wordpress project in it.
+ */
+export async function runDoctor(
+    config: DoctorConfig = {}
+): Promise<CheckResult[]> {
+    const mode = config.mode ?? "development";
+    let resolved: ResolvedConfig | undefined;
+    let error: Error | undefined;
+
+    // The environment is checked separately, so it shouldn't stop the config from loading, and
+    // loading it shouldn't generate a certificate
+    const overrides = ["WORDPRESS_BYPASS_ENV_CHECK", "WORDPRESS_DOCTOR"];
+    const previous = overrides.map((name) => process.env[name]);
+    overrides.forEach((name) => (process.env[name] = "1"));
+
+    try {
+        resolved = await resolveConfig(
+            { configFile: config.configFile, mode, logLevel: "silent" },
+            "serve",
+            mode
+        );
+    } catch (e) {
+        error = e as Error;
+    } finally {
+        overrides.forEach((name, index) => {
+            if (typeof previous[index] === "undefined") {
+                delete process.env[name];
+            } else {
+                process.env[name] = previous[index];
+            }
+        });
+    }
+
+    const env = loadEnv(mode, resolved?.envDir || process.cwd(), "");
+    const results = checkEnvironment(env);
+
+    if (!resolved) {
+        const certificate = checkCertificate(env, "auto", process.cwd());
+
+        return [
+            ...results,
+            ...(certificate ? [certificate] : []),
+            {
+                name: "Vite config",
+                status: "fail",
+                message: error?.message ?? "Unable to load the Vite config.",
+                fix: "Resolve the error above, then run the doctor again.",
+            },
+        ];
+    }
+
+    const projects = resolved.plugins
+        .filter((plugin) => plugin.name === "wordpress")
+        .map(
+            (plugin) =>
+                (plugin as { pluginConfig?: ProjectConfig }).pluginConfig
+        )
+        .filter((project): project is ProjectConfig => !!project);
+
+    if (projects.length === 0) {
+        return [
+            ...results,
+            {
+                name: "Vite config",
+                status: "fail",
+                message: `The Wordpress plugin is not used in ${resolved.configFile}.`,
+                fix: "Add wordpress() from wordpress-vite-plugin to the plugins of the Vite config.",
+            },
+        ];
+    }
+
+    const certificate = checkCertificate(env, projects[0].https, resolved.root);
+    const cors = checkCors(resolved, env);
+
+    return [
+        ...results,
+        ...(certificate ? [certificate] : []),
+        ...(cors ? [cors] : []),
+        ...(await Promise.all(projects.map(checkProject))).flat(),
+    ];
+}
+
+/**
+ * Format check results for the terminal, one line per check followed by its fix.
+ */
+export function formatResults(results: CheckResult[]): string {
+    const labels: Record<CheckStatus, string> = {
+        pass: colors.green("PASS"),
+        warn: colors.yellow("WARN"),
+        fail: colors.red("FAIL"),
+    };
+
+    return results
+        .map(
+            (result) =>
+                `  ${labels[result.status]}  ${colors.bold(result.name)}  ${
+                    result.message
+                }${result.fix ? `\n        ${colors.dim(result.fix)}` : ""}`
+        )
+        .join("\n");
+}
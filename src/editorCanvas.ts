@@ -0,0 +1,119 @@
+import { Plugin } from "vite";
+
+/**
+ * The dev server path the editor canvas client is served from.
+ */
+export const editorCanvasClientPath = "/@wordpress-vite/editor-canvas";
+
+/**
+ * The client mirroring the styles Vite injects into the page into the iframes of the block
+ * editor canvas. The placeholder origin is rewritten to the dev server URL by the transform hook.
+ */
+const client = `const devServerUrl = "http://__wordpress_vite_placeholder__.test";
+const mirror = "data-wordpress-vite-mirror";
+
+// Vite's client reloading the canvas would leave it blank, so reload the editor around it instead
+if (window.frameElement && import.meta.hot) {
+    import.meta.hot.on("vite:beforeFullReload", () => window.top.location.reload());
+}
+
+const isViteStyle = (node) =>
+    node.nodeType === Node.ELEMENT_NODE &&
+    (node.matches("style[data-vite-dev-id]") ||
+        (node.matches('link[rel="stylesheet"]') && node.href.startsWith(devServerUrl + "/")));
+
+const styleId = (node) =>
+    node.getAttribute("data-vite-dev-id") ?? (node.getAttribute("href") ?? "").split("?")[0];
+
+function sync(frame) {
+    const head = frame.contentDocument?.head;
+    if (!head) {
+        return;
+    }
+
+    // Styles injected by a Vite client running inside the canvas are updated by that client
+    const own = new Set(
+        [...head.querySelectorAll("style[data-vite-dev-id]:not([" + mirror + "])")].map(styleId)
+    );
+    const stale = new Map(
+        [...head.querySelectorAll("[" + mirror + "]")].map((node) => [node.getAttribute(mirror), node])
+    );
+
+    [...document.head.children].filter(isViteStyle).forEach((node) => {
+        const id = styleId(node);
+        const current = stale.get(id);
+        stale.delete(id);
+
+        if (
+            own.has(id) ||
+            (current &&
+                current.textContent === node.textContent &&
+                current.getAttribute("href") === node.getAttribute("href"))
+        ) {
+            return;
+        }
+
+        const copy = head.ownerDocument.importNode(node, true);
+        copy.setAttribute(mirror, id);
+        current ? current.replaceWith(copy) : head.appendChild(copy);
+    });
+
+    stale.forEach((node) => node.remove());
+}
+
+const frames = new WeakSet();
+const canvases = () => [...document.querySelectorAll('iframe[name="editor-canvas"]')];
+
+let scheduled = false;
+function watchFrames() {
+    scheduled = false;
+    canvases().forEach((frame) => {
+        if (!frames.has(frame)) {
+            frames.add(frame);
+            frame.addEventListener("load", () => sync(frame));
+        }
+        sync(frame);
+    });
+}
+
+new MutationObserver(() => canvases().forEach(sync)).observe(document.head, {
+    childList: true,
+    subtree: true,
+    characterData: true,
+    attributes: true,
+    attributeFilter: ["href"],
+});
+
+new MutationObserver(() => {
+    if (!scheduled) {
+        scheduled = true;
+        requestAnimationFrame(watchFrames);
+    }
+}).observe(document.documentElement, { childList: true, subtree: true });
+
+watchFrames();
+`;
+
+/**
+ * Serve the editor canvas client through the transform pipeline, so it gets an HMR context and
+ * the dev server URL.
+ */
+export default function (): Plugin {
+    return {
+        name: "wordpress:editor-canvas",
+        apply: "serve",
+        resolveId: {
+            order: "pre",
+            handler(id) {
+                if (id === editorCanvasClientPath) {
+                    return id;
+                }
+            },
+        },
+        load(id) {
+            if (id === editorCanvasClientPath) {
+                return client;
+            }
+        },
+    };
+}
@@ -0,0 +1,235 @@
+import { isCSSRequest, normalizePath, Plugin } from "vite";
+import { ManifestApi } from "./manifest.js";
+
+export interface EditorStylesConfig {
+    /**
+     * The CSS entries to build an editor variant of
+     */
+    entries: string[];
+
+    /**
+     * The selector every rule is scoped under
+     */
+    selector: string;
+}
+
+/**
+ * The query marking the editor variant of a stylesheet.
+ */
+export const editorQuery = "editor";
+
+/**
+ * At-rules whose blocks contain style rules that need scoping.
+ */
+const conditionalAtRules = [
+    "media",
+    "supports",
+    "layer",
+    "container",
+    "document",
+    "scope",
+    "starting-style",
+];
+
+/**
+ * The id of the editor variant of an entry.
+ */
+export function editorEntry(entry: string): string {
+    return `${entry}?${editorQuery}`;
+}
+
+/**
+ * Whether a module id is the editor variant of a stylesheet.
+ */
+function isEditorStylesheet(id: string): boolean {
+    const [, query = ""] = id.split("?", 2);
+
+    return (
+        isCSSRequest(id) &&
+        new URLSearchParams(query).has(editorQuery) &&
+        !new URLSearchParams(query).has("url")
+    );
+}
+
+/**
+ * Split a selector list on its top level commas.
+ */
+function splitSelectors(selectors: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = "";
+
+    for (const char of selectors) {
+        if (char === "(" || char === "[") {
+            depth++;
+        } else if (char === ")" || char === "]") {
+            depth--;
+        } else if (char === "," && depth === 0) {
+            parts.push(current);
+            current = "";
+            continue;
+        }
+        current += char;
+    }
+
+    return [...parts, current].map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Scope a selector under the wrapper, remapping `html`, `:root` and `body` onto the wrapper itself.
+ */
+function scopeSelector(selector: string, wrapper: string): string {
+    const document = selector.match(
+        /^(?:html|:root)(?![\w-])([^\s>+~]*)\s*(?:>\s*)?(.*)$/s
+    );
+    let qualifiers = "";
+    let rest = selector;
+
+    if (document) {
+        qualifiers = document[1];
+        rest = document[2];
+    }
+
+    const body = rest.match(/^body(?![\w-])([^\s>+~]*)\s*(.*)$/s);
+    if (body) {
+        qualifiers += body[1];
+        rest = body[2];
+    }
+
+    if (!document && !body) {
+        return selector.startsWith(wrapper)
+            ? selector
+            : `${wrapper} ${selector}`;
+    }
+
+    return rest
+        ? `${wrapper}${qualifiers} ${rest}`
+        : `${wrapper}${qualifiers}`;
+}
+
+/**
+ * Scope every style rule of a stylesheet under the wrapper selector. Rules inside conditional
+ * at-rules are scoped too, while keyframes, font faces and other descriptor blocks are left alone.
+ */
+function scopeStylesheet(css: string, wrapper: string): string {
+    let output = "";
+    let prelude = "";
+    let i = 0;
+
+    while (i < css.length) {
+        const char = css[i];
+
+        // Comments and strings are copied verbatim
+        if (char === "/" && css[i + 1] === "*") {
+            const end = css.indexOf("*/", i + 2);
+            const stop = end === -1 ? css.length : end + 2;
+            prelude += css.slice(i, stop);
+            i = stop;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            let end = i + 1;
+            while (end < css.length && css[end] !== char) {
+                end += css[end] === "\\" ? 2 : 1;
+            }
+            prelude += css.slice(i, end + 1);
+            i = end + 1;
+            continue;
+        }
+
+        if (char === ";" || char === "}") {
+            output += prelude + char;
+            prelude = "";
+            i++;
+            continue;
+        }
+
+        if (char !== "{") {
+            prelude += char;
+            i++;
+            continue;
+        }
+
+        const blockEnd = findBlockEnd(css, i);
+        const block = css.slice(i + 1, blockEnd);
+        const leading =
+            prelude.match(/^(?:\s|\/\*[\s\S]*?\*\/)*/)?.[0] ?? "";
+        const trimmed = prelude.slice(leading.length).trim();
+
+        if (trimmed.startsWith("@")) {
+            const name = trimmed.slice(1).split(/[\s(]/, 1)[0].toLowerCase();
+            output += conditionalAtRules.includes(name)
+                ? `${prelude}{${scopeStylesheet(block, wrapper)}}`
+                : `${prelude}{${block}}`;
+        } else {
+            output += `${leading}${splitSelectors(trimmed)
+                .map((selector) => scopeSelector(selector, wrapper))
+                .join(", ")} {${block}}`;
+        }
+
+        prelude = "";
+        i = blockEnd + 1;
+    }
+
+    return output + prelude;
+}
+
+/**
+ * Find the brace closing the block opened at the given position.
+ */
+function findBlockEnd(css: string, start: number): number {
+    let depth = 0;
+
+    for (let i = start; i < css.length; i++) {
+        const char = css[i];
+
+        if (char === "/" && css[i + 1] === "*") {
+            const end = css.indexOf("*/", i + 2);
+            i = end === -1 ? css.length : end + 1;
+        } else if (char === '"' || char === "'") {
+            i++;
+            while (i < css.length && css[i] !== char) {
+                i += css[i] === "\\" ? 2 : 1;
+            }
+        } else if (char === "{") {
+            depth++;
+        } else if (char === "}" && --depth === 0) {
+            return i;
+        }
+    }
+
+    return css.length;
+}
+
+/**
+ * Build an editor variant of CSS entries with every rule scoped under the editor wrapper, so the same
+ * stylesheet can style the block editor. The variant is served with HMR from the dev server, and in
+ * the build its file is recorded against the original entry as `editor` in the manifest.
+ */
+export default function (config: EditorStylesConfig): Plugin<ManifestApi> {
+    return {
+        name: "wordpress:editor-styles",
+        transform(code, id) {
+            if (!isEditorStylesheet(id)) {
+                return;
+            }
+
+            return {
+                code: scopeStylesheet(code, config.selector),
+                map: null,
+            };
+        },
+        api: {
+            manifest(chunks) {
+                config.entries.forEach((entry) => {
+                    const key = normalizePath(entry);
+                    const variant = chunks[editorEntry(key)];
+                    if (chunks[key] && variant) {
+                        Object.assign(chunks[key], { editor: variant.file });
+                    }
+                });
+            },
+        },
+    };
+}
@@ -0,0 +1,232 @@
+import { basename, extname, relative, resolve } from "node:path";
+import { normalizePath, Plugin, ResolvedConfig } from "vite";
+import { ManifestApi } from "./manifest.js";
+
+export type EntryFormat = "es" | "iife";
+
+/**
+ * Where Wordpress loads an entry: the site, wp-admin, the block editor or the login screen.
+ */
+export type EntryContext = "frontend" | "admin" | "editor" | "login";
+
+export interface EntryConfig {
+    /**
+     * The path of the entry point
+     */
+    path: string;
+
+    /**
+     * The screens the PHP loader enqueues the entry on by itself
+     */
+    context?: EntryContext | EntryContext[];
+
+    /**
+     * The script handle to register the entry under, instead of one derived from its path
+     */
+    handle?: string;
+
+    /**
+     * Script handles the entry depends on, besides the Wordpress externals it imports
+     */
+    deps?: string[];
+
+    /**
+     * Bundle React into this entry, or load it from Wordpress, regardless of the project's `localReact`.
+     * Builds only, as the dev server serves every entry from one module graph.
+     */
+    localReact?: boolean;
+
+    /**
+     * @default 'es'
+     */
+    format?: EntryFormat;
+}
+
+export type InputConfig =
+    string | string[] | Record<string, string | EntryConfig>;
+
+/**
+ * The settings of an entry the PHP loader reads from the manifest or hot file.
+ */
+export interface EntrySettings {
+    context?: EntryContext[];
+    handle?: string;
+    deps?: string[];
+    localReact?: boolean;
+    format?: EntryFormat;
+}
+
+/**
+ * Name each path after its file, or where that name is taken, after its path without the extension,
+ * and failing that after its path with the extension, e.g. `app`, `resources/js/app` or `src/app-css`.
+ */
+export function uniqueNames(
+    paths: string[],
+    taken: string[] = [],
+    suffix = ""
+): string[] {
+    const candidates = paths.map((path) => {
+        const file = normalizePath(path).replace(/^(\.?\/)+/, "");
+        const extension = extname(file);
+        const stem = file.slice(0, file.length - extension.length);
+
+        return [
+            basename(stem),
+            stem,
+            extension ? `${stem}-${extension.slice(1)}` : stem,
+        ].map((name) => `${name}${suffix}`);
+    });
+    const levels = paths.map(() => 0);
+    const names = () =>
+        candidates.map((candidate, index) => candidate[levels[index]]);
+
+    let changed: boolean;
+    do {
+        const current = names();
+        changed = false;
+
+        current.forEach((name, index) => {
+            const clashes =
+                taken.includes(name) ||
+                current.some((other, i) => i !== index && other === name);
+            if (clashes && levels[index] < 2) {
+                levels[index]++;
+                changed = true;
+            }
+        });
+    } while (changed);
+
+    return names();
+}
+
+/**
+ * Normalise the input option into entry configurations keyed by their name.
+ */
+export function resolveEntries(
+    input: InputConfig
+): Record<string, EntryConfig> {
+    if (typeof input === "string" || Array.isArray(input)) {
+        const paths = Array.isArray(input) ? input : [input];
+        const names = uniqueNames(paths);
+
+        return Object.fromEntries(
+            paths.map((path, index) => [names[index], { path }])
+        );
+    }
+
+    return Object.fromEntries(
+        Object.entries(input).map(([name, entry]) => [
+            name,
+            typeof entry === "string" ? { path: entry } : entry,
+        ])
+    );
+}
+
+/**
+ * The paths of the entry points of the input option.
+ */
+export function entryPaths(input: InputConfig): string[] {
+    return Object.values(resolveEntries(input)).map((entry) => entry.path);
+}
+
+/**
+ * The output format of an entry, from its own settings or the formats option keyed by path.
+ */
+export function resolveEntryFormat(
+    entry: EntryConfig,
+    formats: Record<string, EntryFormat> = {}
+): EntryFormat {
+    const path = (value: string) => normalizePath(value).replace(/^\.\//, "");
+    const format = Object.entries(formats).find(
+        ([key]) => path(key) === path(entry.path)
+    )?.[1];
+
+    return entry.format ?? format ?? "es";
+}
+
+/**
+ * The settings of the entries that have any, keyed by the path of the entry relative to the
+ * project root. Given the project's `localReact` and `formats`, as in the build, every entry
+ * records whether it bundles React and its output format.
+ */
+export function resolveEntrySettings(
+    input: InputConfig,
+    root: string,
+    {
+        projectRoot = root,
+        localReact,
+        formats,
+    }: {
+        projectRoot?: string;
+        localReact?: boolean;
+        formats?: Record<string, EntryFormat>;
+    } = {}
+): Record<string, EntrySettings> {
+    return Object.fromEntries(
+        Object.values(resolveEntries(input)).flatMap((entry) => {
+            const settings: EntrySettings = {
+                ...(entry.context
+                    ? {
+                          context: Array.isArray(entry.context)
+                              ? entry.context
+                              : [entry.context],
+                      }
+                    : {}),
+                ...(entry.handle ? { handle: entry.handle } : {}),
+                ...(entry.deps?.length ? { deps: entry.deps } : {}),
+                ...(localReact !== undefined
+                    ? { localReact: entry.localReact ?? localReact }
+                    : {}),
+                ...(formats
+                    ? { format: resolveEntryFormat(entry, formats) }
+                    : {}),
+            };
+
+            return Object.keys(settings).length
+                ? [
+                      [
+                          normalizePath(
+                              relative(projectRoot, resolve(root, entry.path))
+                          ),
+                          settings,
+                      ],
+                  ]
+                : [];
+        })
+    );
+}
+
+/**
+ * Record the settings of each entry against it in the manifest, so the PHP loader can enqueue it
+ * under its handle, with its dependencies, on the screens of its context, as a module or a
+ * classic script.
+ */
+export default function (
+    input: InputConfig,
+    localReact: boolean,
+    formats: Record<string, EntryFormat>
+): Plugin<ManifestApi> {
+    let resolvedConfig: ResolvedConfig;
+
+    return {
+        name: "wordpress:entries",
+        configResolved(config) {
+            resolvedConfig = config;
+        },
+        api: {
+            manifest(chunks) {
+                const settings = resolveEntrySettings(
+                    input,
+                    resolvedConfig.root,
+                    { localReact, formats }
+                );
+
+                Object.entries(settings).forEach(([key, entry]) => {
+                    if (chunks[key]) {
+                        Object.assign(chunks[key], entry);
+                    }
+                });
+            },
+        },
+    };
+}
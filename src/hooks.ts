@@ -0,0 +1,127 @@
+import { Logger, Manifest, Plugin } from "vite";
+import { HotFile } from "./hotFile.js";
+import { ManifestApi } from "./manifest.js";
+import { RefreshAction } from "./refresh.js";
+
+type Awaitable<T> = T | Promise<T>;
+
+export interface HotFileContext<Config> {
+    config: Config;
+
+    /**
+     * The URL of the dev server
+     */
+    url: string;
+    hotFile: HotFile;
+}
+
+export interface ServerClosedContext<Config> {
+    config: Config;
+
+    /**
+     * The URL of the dev server
+     */
+    url: string;
+}
+
+export interface ManifestContext<Config> {
+    config: Config;
+
+    /**
+     * The manifest, with the settings, versions, integrity hashes and chunk handles added by the plugin
+     */
+    manifest: Manifest;
+    manifestPath: string;
+    outDir: string;
+}
+
+export interface RefreshContext<Config> {
+    config: Config;
+
+    /**
+     * The URL of the dev server
+     */
+    url: string;
+
+    /**
+     * The absolute path of the changed file
+     */
+    file: string;
+    action: RefreshAction;
+}
+
+/**
+ * Hooks into the lifecycle of the dev server and the build.
+ */
+export interface WordpressHooks<Config> {
+    /**
+     * After the dev server has written the hot file
+     */
+    hotFileWritten?: (context: HotFileContext<Config>) => Awaitable<void>;
+
+    /**
+     * When the dev server shuts down, after the hot file has been removed
+     */
+    serverClosed?: (context: ServerClosedContext<Config>) => Awaitable<void>;
+
+    /**
+     * Once the other plugins have finished with the manifest, before it is written and the PHP
+     * loader copies it. Return a manifest to replace it.
+     */
+    manifestWritten?: (
+        context: ManifestContext<Config>
+    ) => Awaitable<Manifest | void>;
+
+    /**
+     * When a change to a refresh path reloads the page or the styles
+     */
+    refresh?: (context: RefreshContext<Config>) => Awaitable<void>;
+}
+
+/**
+ * Run a dev server hook, logging its errors rather than letting them take the dev server down.
+ */
+export async function runHook<Context>(
+    name: string,
+    hook: ((context: Context) => Awaitable<unknown>) | undefined,
+    context: Context,
+    logger: Logger
+): Promise<void> {
+    if (!hook) {
+        return;
+    }
+
+    try {
+        await hook(context);
+    } catch (error) {
+        logger.error(
+            `wordpress-vite-plugin: the ${name} hook failed: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+            { timestamp: true }
+        );
+    }
+}
+
+/**
+ * Run the manifestWritten hook once the other plugins have finished with the manifest, replacing it
+ * with the manifest the hook returns. The build fails when the hook throws.
+ */
+export default function <Config>(
+    hooks: WordpressHooks<Config>,
+    config: Config
+): Plugin<ManifestApi> {
+    return {
+        name: "wordpress:hooks",
+        api: {
+            manifest(manifest, { manifestPath, outDir }) {
+                return hooks.manifestWritten?.({
+                    config,
+                    manifest,
+                    manifestPath,
+                    outDir,
+                });
+            },
+        },
+    };
+}
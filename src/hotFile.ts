@@ -0,0 +1,195 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { hostname } from "node:os";
+import { EntrySettings } from "./entries.js";
+
+/**
+ * The path the dev server answers health checks on.
+ */
+export const healthPath = "/__wordpress_vite/health";
+
+export interface HotFile {
+    /**
+     * The URL of the dev server
+     */
+    url: string;
+
+    /**
+     * The path prefix the project's files are served under, when sharing a dev server
+     */
+    base?: string;
+
+    /**
+     * The name of the Wordpress plugin or theme
+     */
+    namespace?: string;
+
+    /**
+     * The process id of the dev server, only meaningful on the same host
+     */
+    pid?: number;
+
+    /**
+     * The host name of the machine running the dev server
+     */
+    host?: string;
+
+    /**
+     * When the dev server started, as an ISO 8601 string
+     */
+    startedAt?: string;
+
+    /**
+     * The entry points being served
+     */
+    inputs?: string[];
+
+    /**
+     * The settings of the entries that have any, keyed by their path
+     */
+    entries?: Record<string, EntrySettings>;
+
+    /**
+     * The script handles of the Wordpress externals each entry imports, keyed by its path
+     */
+    dependencies?: Record<string, string[]>;
+
+    /**
+     * Whether React Fast Refresh is active
+     */
+    reactRefresh?: boolean;
+
+    /**
+     * The URL of the React Fast Refresh preamble, when refresh is active
+     */
+    reactRefreshPreamble?: string;
+
+    /**
+     * The URL of the client reacting to Wordpress file changes, when any refresh path has an action
+     */
+    refreshClient?: string;
+
+    /**
+     * The URL of the client mirroring the dev server's styles into the block editor canvas
+     */
+    editorCanvasClient?: string;
+
+    /**
+     * The version of the Wordpress Vite plugin that wrote the file
+     */
+    version?: string;
+}
+
+/**
+ * Write the hot file for a running dev server.
+ */
+export function writeHotFile(
+    path: string,
+    data: Omit<HotFile, "pid" | "host" | "startedAt">
+): HotFile {
+    const hotFile: HotFile = {
+        ...data,
+        pid: process.pid,
+        host: hostname(),
+        startedAt: new Date().toISOString(),
+    };
+
+    writeFileSync(path, JSON.stringify(hotFile, null, 4));
+
+    return hotFile;
+}
+
+/**
+ * Update fields of the hot file of a running dev server, keeping the others.
+ */
+export function updateHotFile(path: string, data: Partial<HotFile>): void {
+    const hotFile = readHotFile(path);
+
+    if (hotFile) {
+        writeFileSync(path, JSON.stringify({ ...hotFile, ...data }, null, 4));
+    }
+}
+
+/**
+ * Read a hot file, accepting both the JSON format and the legacy plain URL format.
+ */
+export function readHotFile(path: string): HotFile | undefined {
+    if (existsSync(path) === false) {
+        return;
+    }
+
+    const contents = readFileSync(path, "utf-8").trim();
+
+    if (contents.startsWith("{")) {
+        try {
+            return JSON.parse(contents);
+        } catch {
+            return;
+        }
+    }
+
+    return contents ? { url: contents } : undefined;
+}
+
+/**
+ * Whether the process with the given id is still running.
+ */
+function isProcessRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (e) {
+        return (e as NodeJS.ErrnoException).code === "EPERM";
+    }
+}
+
+/**
+ * Whether the dev server answers its health endpoint within the timeout.
+ */
+function isServerHealthy(url: string, timeout: number): Promise<boolean> {
+    return new Promise((resolve) => {
+        let target: URL;
+        try {
+            target = new URL(healthPath, url);
+        } catch {
+            return resolve(false);
+        }
+
+        const request = (
+            target.protocol === "https:" ? httpsRequest : httpRequest
+        )(target, { timeout, rejectUnauthorized: false }, (res) => {
+            res.resume();
+            resolve(res.statusCode === 200);
+        });
+
+        request.on("timeout", () => request.destroy());
+        request.on("error", () => resolve(false));
+        request.end();
+    });
+}
+
+/**
+ * Whether the hot file is missing or was left behind by a dev server that is no longer running.
+ * The process id is only checked when the file was written on this host.
+ */
+export async function isHotFileStale(
+    path: string,
+    timeout = 1000
+): Promise<boolean> {
+    const hotFile = readHotFile(path);
+
+    if (!hotFile) {
+        return true;
+    }
+
+    if (
+        hotFile.pid &&
+        hotFile.host === hostname() &&
+        !isProcessRunning(hotFile.pid)
+    ) {
+        return true;
+    }
+
+    return !(await isServerHealthy(hotFile.url, timeout));
+}
@@ -0,0 +1,687 @@
+import { createHash } from "node:crypto";
+import {
+    existsSync,
+    mkdirSync,
+    readdirSync,
+    readFileSync,
+    writeFileSync,
+} from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { normalizePath, Plugin, ResolvedConfig, Rollup } from "vite";
+
+type AstNode = { type?: string; [key: string]: unknown };
+
+export interface I18nConfig {
+    /**
+     * The text domain to collect strings for
+     *
+     * @default namespace
+     */
+    textDomain?: string;
+
+    /**
+     * Where to write the POT file, relative to the project root, or false to skip it
+     *
+     * @default `languages/${textDomain}.pot`
+     */
+    pot?: string | false;
+
+    /**
+     * The directory holding `${textDomain}-${locale}.po` files to turn into JSON translations
+     *
+     * @default 'languages'
+     */
+    languages?: string;
+}
+
+interface Translatable {
+    context?: string;
+    single: string;
+    plural?: string;
+    comment?: string;
+    references: Set<string>;
+}
+
+/**
+ * Lets the nested builds of the isolated entries add their strings and chunks to the translations.
+ */
+export interface I18nApi {
+    /**
+     * A plugin for a nested build, collecting its strings and chunks into this build's
+     */
+    nestedBuild(): Plugin;
+}
+
+interface TranslatedChunk {
+    fileName: string;
+    isEntry: boolean;
+
+    /**
+     * The modules bundled into the chunk
+     */
+    modules: string[];
+
+    /**
+     * The modules of the chunk and every chunk it imports
+     */
+    reachable: string[];
+}
+
+interface PoEntry {
+    context?: string;
+    id: string;
+    translations: string[];
+}
+
+/**
+ * The argument positions of each translation function's strings.
+ */
+const functions: Record<
+    string,
+    { single: number; plural?: number; context?: number; domain: number }
+> = {
+    __: { single: 0, domain: 1 },
+    _x: { single: 0, context: 1, domain: 2 },
+    _n: { single: 0, plural: 1, domain: 3 },
+    _nx: { single: 0, plural: 1, context: 3, domain: 4 },
+};
+
+const i18nModule = "@wordpress/i18n";
+
+/**
+ * The key Jed uses for a string, with its context separated by an EOT character.
+ */
+function translationKey(id: string, context?: string): string {
+    return context ? `${context}\u0004${id}` : id;
+}
+
+/**
+ * Map the local names of translation functions imported from `@wordpress/i18n`, with
+ * namespace imports recorded under an empty key.
+ */
+function collectI18nImports(program: AstNode): Map<string, string> {
+    const names = new Map<string, string>();
+
+    (program.body as AstNode[]).forEach((node) => {
+        if (
+            node.type !== "ImportDeclaration" ||
+            (node.source as AstNode).value !== i18nModule
+        ) {
+            return;
+        }
+
+        (node.specifiers as AstNode[]).forEach((specifier) => {
+            const local = (specifier.local as AstNode).name as string;
+            if (specifier.type === "ImportSpecifier") {
+                const imported = specifier.imported as AstNode;
+                names.set(local, (imported.name ?? imported.value) as string);
+            } else {
+                names.set(local, "");
+            }
+        });
+    });
+
+    return names;
+}
+
+/**
+ * The translation function a call expression invokes, if any.
+ */
+function calledFunction(
+    callee: AstNode,
+    imports: Map<string, string>
+): string | undefined {
+    if (callee.type === "Identifier") {
+        return imports.get(callee.name as string) || undefined;
+    }
+
+    if (callee.type === "SequenceExpression") {
+        const expressions = callee.expressions as AstNode[];
+        return calledFunction(expressions[expressions.length - 1], imports);
+    }
+
+    if (callee.type !== "MemberExpression" || callee.computed) {
+        return;
+    }
+
+    const object = callee.object as AstNode;
+    const property = (callee.property as AstNode).name as string;
+    const isNamespace =
+        (object.type === "Identifier" &&
+            imports.get(object.name as string) === "") ||
+        (object.type === "MemberExpression" &&
+            ((object.property as AstNode).name as string) === "i18n" &&
+            ((object.object as AstNode).name as string) === "wp");
+
+    return isNamespace ? property : undefined;
+}
+
+/**
+ * The value of a string literal argument.
+ */
+function stringValue(node: AstNode | undefined): string | undefined {
+    if (node?.type === "Literal" && typeof node.value === "string") {
+        return node.value;
+    }
+
+    if (
+        node?.type === "TemplateLiteral" &&
+        (node.expressions as AstNode[]).length === 0
+    ) {
+        return ((node.quasis as AstNode[])[0].value as AstNode)
+            .cooked as string;
+    }
+}
+
+/**
+ * The translator comment directly preceding a call, or the line it is on, and where it ends.
+ */
+function translatorComment(
+    code: string,
+    start: number
+): [string, number] | undefined {
+    const lineStart = code.lastIndexOf("\n", start - 1) + 1;
+
+    for (const end of [start, lineStart]) {
+        const match = code
+            .slice(Math.max(0, end - 500), end)
+            .match(
+                /(?:\/\*\s*translators:\s*([\s\S]*?)\s*\*\/|\/\/\s*translators:\s*([^\n]*))\s*$/i
+            );
+
+        if (match) {
+            return [(match[1] ?? match[2]).trim(), end];
+        }
+    }
+}
+
+/**
+ * Collect the translatable strings for the text domain from a parsed module.
+ */
+function collectStrings(
+    program: AstNode,
+    code: string,
+    textDomain: string,
+    reference: (offset: number) => string
+): Translatable[] {
+    const imports = collectI18nImports(program);
+    const strings: Translatable[] = [];
+    const usedComments = new Set<number>();
+
+    const visit = (node: unknown): void => {
+        if (Array.isArray(node)) {
+            node.forEach(visit);
+            return;
+        }
+
+        if (node === null || typeof node !== "object") {
+            return;
+        }
+
+        const { type, callee, arguments: args, start } = node as AstNode;
+        const fn =
+            type === "CallExpression"
+                ? calledFunction(callee as AstNode, imports)
+                : undefined;
+        const positions = fn ? functions[fn] : undefined;
+
+        if (positions) {
+            const values = args as AstNode[];
+            const single = stringValue(values[positions.single]);
+            const domain = stringValue(values[positions.domain]);
+
+            if (single !== undefined && domain === textDomain) {
+                // A comment on the line before only applies to the line's first call
+                const [comment, commentEnd] =
+                    translatorComment(code, start as number) ?? [];
+                const isUsed =
+                    commentEnd !== undefined && usedComments.has(commentEnd);
+                if (commentEnd !== undefined) {
+                    usedComments.add(commentEnd);
+                }
+
+                strings.push({
+                    single,
+                    plural:
+                        positions.plural !== undefined
+                            ? stringValue(values[positions.plural])
+                            : undefined,
+                    context:
+                        positions.context !== undefined
+                            ? stringValue(values[positions.context])
+                            : undefined,
+                    comment: isUsed ? undefined : comment,
+                    references: new Set([reference(start as number)]),
+                });
+            }
+        }
+
+        Object.values(node).forEach(visit);
+    };
+
+    visit(program);
+
+    return strings;
+}
+
+/**
+ * Quote a string for a PO file.
+ */
+function poString(value: string): string {
+    const escaped = value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, '\\"')
+        .replace(/\t/g, "\\t")
+        .replace(/\r/g, "\\r");
+
+    if (!escaped.includes("\n")) {
+        return `"${escaped}"`;
+    }
+
+    return [
+        '""',
+        ...escaped
+            .split("\n")
+            .map((line, i, lines) =>
+                i < lines.length - 1 ? `"${line}\\n"` : `"${line}"`
+            )
+            .filter((line) => line !== '""'),
+    ].join("\n");
+}
+
+/**
+ * Render the collected strings as a POT file.
+ */
+function renderPot(
+    strings: Map<string, Translatable>,
+    textDomain: string
+): string {
+    const header = [
+        "# This file is generated by wordpress-vite-plugin.",
+        'msgid ""',
+        'msgstr ""',
+        `"Project-Id-Version: ${textDomain}\\n"`,
+        `"POT-Creation-Date: ${new Date().toISOString()}\\n"`,
+        '"MIME-Version: 1.0\\n"',
+        '"Content-Type: text/plain; charset=UTF-8\\n"',
+        '"Content-Transfer-Encoding: 8bit\\n"',
+        `"X-Domain: ${textDomain}\\n"`,
+    ].join("\n");
+
+    const entries = [...strings.values()].map((string) =>
+        [
+            ...(string.comment ? [`#. translators: ${string.comment}`] : []),
+            `#: ${[...string.references].sort().join(" ")}`,
+            ...(string.context !== undefined
+                ? [`msgctxt ${poString(string.context)}`]
+                : []),
+            `msgid ${poString(string.single)}`,
+            ...(string.plural !== undefined
+                ? [
+                      `msgid_plural ${poString(string.plural)}`,
+                      'msgstr[0] ""',
+                      'msgstr[1] ""',
+                  ]
+                : ['msgstr ""']),
+        ].join("\n")
+    );
+
+    return [header, ...entries].join("\n\n") + "\n";
+}
+
+/**
+ * Unquote a PO string, or the continuation lines of one.
+ */
+function unquote(value: string): string {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value.slice(1, -1);
+    }
+}
+
+/**
+ * Parse a PO file into its header fields and translated entries, skipping fuzzy ones.
+ */
+function parsePo(contents: string): {
+    headers: Record<string, string>;
+    entries: PoEntry[];
+} {
+    const entries: PoEntry[] = [];
+    let headers: Record<string, string> = {};
+
+    contents.split(/\r?\n\s*\r?\n/).forEach((block) => {
+        const fields: Record<string, string> = {};
+        let field: string | undefined;
+        let fuzzy = false;
+
+        block.split(/\r?\n/).forEach((rawLine) => {
+            const line = rawLine.trim();
+            if (line.startsWith("#,") && line.includes("fuzzy")) {
+                fuzzy = true;
+            }
+            if (line === "" || line.startsWith("#")) {
+                return;
+            }
+
+            const match = line.match(
+                /^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+(".*")$/
+            );
+            if (match) {
+                field = match[1];
+                fields[field] = unquote(match[2]);
+            } else if (field && line.startsWith('"')) {
+                fields[field] += unquote(line);
+            }
+        });
+
+        if (fields.msgid === undefined) {
+            return;
+        }
+
+        if (fields.msgid === "" && fields.msgctxt === undefined) {
+            headers = Object.fromEntries(
+                (fields.msgstr ?? "")
+                    .split("\n")
+                    .filter((header) => header.includes(":"))
+                    .map((header) => {
+                        const index = header.indexOf(":");
+                        return [
+                            header.slice(0, index).trim(),
+                            header.slice(index + 1).trim(),
+                        ];
+                    })
+            );
+            return;
+        }
+
+        const translations =
+            fields.msgstr !== undefined
+                ? [fields.msgstr]
+                : Object.keys(fields)
+                      .filter((key) => key.startsWith("msgstr["))
+                      .sort()
+                      .map((key) => fields[key]);
+
+        if (!fuzzy && translations.some((translation) => translation !== "")) {
+            entries.push({
+                context: fields.msgctxt,
+                id: fields.msgid,
+                translations,
+            });
+        }
+    });
+
+    return { headers, entries };
+}
+
+/**
+ * The modules of a chunk and every chunk it imports, statically or dynamically.
+ */
+function reachableModules(
+    chunk: Rollup.OutputChunk,
+    bundle: Rollup.OutputBundle,
+    seen = new Set<string>()
+): string[] {
+    if (seen.has(chunk.fileName)) {
+        return [];
+    }
+    seen.add(chunk.fileName);
+
+    return [
+        ...Object.keys(chunk.modules),
+        ...[...chunk.imports, ...chunk.dynamicImports].flatMap((fileName) => {
+            const imported = bundle[fileName];
+            return imported?.type === "chunk"
+                ? reachableModules(imported, bundle, seen)
+                : [];
+        }),
+    ];
+}
+
+/**
+ * The chunks of a bundle with the modules they bundle and reach.
+ */
+function translatedChunks(bundle: Rollup.OutputBundle): TranslatedChunk[] {
+    return Object.values(bundle)
+        .filter(
+            (output): output is Rollup.OutputChunk => output.type === "chunk"
+        )
+        .map((chunk) => ({
+            fileName: chunk.fileName,
+            isEntry: chunk.isEntry,
+            modules: Object.keys(chunk.modules),
+            reachable: reachableModules(chunk, bundle),
+        }));
+}
+
+/**
+ * Collect `__()`, `_x()`, `_n()` and `_nx()` strings for the text domain into a POT file, map every
+ * emitted chunk to its source files, and turn `.po` files into the JSON translations Wordpress loads
+ * for each entry. Each entry's JSON includes the strings of the chunks it imports lazily, as Wordpress
+ * only loads translations for the entry script itself. The isolated entries add theirs through the
+ * plugin's API.
+ */
+export default function (
+    config: Required<I18nConfig> & { contentDirectory?: string }
+): Plugin<I18nApi> {
+    const strings = new Map<string, Translatable>();
+    const moduleStrings = new Map<string, Set<string>>();
+    const nestedChunks: TranslatedChunk[] = [];
+    let resolvedConfig: ResolvedConfig;
+
+    const sourcePath = (id: string) =>
+        normalizePath(relative(resolvedConfig.root, id.split("?")[0]));
+
+    /**
+     * The path Wordpress hashes to find a script's JSON translations: relative to the plugin or
+     * theme directory, i.e. the content directory without its first two segments.
+     */
+    const scriptPath = (file: string) => {
+        const contentPath = config.contentDirectory
+            ? relative(config.contentDirectory, file)
+            : "..";
+
+        return contentPath.startsWith("..") || isAbsolute(contentPath)
+            ? normalizePath(relative(resolvedConfig.root, file))
+            : normalizePath(contentPath).split("/").slice(2).join("/");
+    };
+
+    /**
+     * Collect the strings of a module.
+     */
+    const collect = (
+        code: string,
+        id: string,
+        parse: (code: string) => unknown
+    ) => {
+        if (
+            id.startsWith("\0") ||
+            id.includes("node_modules") ||
+            !/\b(?:__|_x|_n|_nx)\b/.test(code)
+        ) {
+            return;
+        }
+
+        let program: AstNode;
+        try {
+            program = parse(code) as unknown as AstNode;
+        } catch {
+            return;
+        }
+
+        const lineOf = (offset: number) =>
+            code.slice(0, offset).split("\n").length;
+
+        const found = collectStrings(
+            program,
+            code,
+            config.textDomain,
+            (offset) => `${sourcePath(id)}:${lineOf(offset)}`
+        );
+
+        moduleStrings.set(
+            id,
+            new Set(
+                found.map((string) => {
+                    const key = translationKey(string.single, string.context);
+                    const existing = strings.get(key);
+                    if (existing) {
+                        string.references.forEach((reference) =>
+                            existing.references.add(reference)
+                        );
+                        existing.plural ??= string.plural;
+                        existing.comment ??= string.comment;
+                    } else {
+                        strings.set(key, string);
+                    }
+                    return key;
+                })
+            )
+        );
+    };
+
+    return {
+        name: "wordpress:i18n",
+        apply: (_config, { command, isSsrBuild }) =>
+            command === "build" && !isSsrBuild,
+        configResolved(config) {
+            resolvedConfig = config;
+        },
+        api: {
+            nestedBuild: () => ({
+                name: "wordpress:i18n-nested",
+                transform(code, id) {
+                    collect(code, id, (source) => this.parse(source));
+                },
+                generateBundle(_options, bundle) {
+                    nestedChunks.push(...translatedChunks(bundle));
+                },
+            }),
+        },
+        buildStart() {
+            strings.clear();
+            moduleStrings.clear();
+            nestedChunks.length = 0;
+        },
+        transform(code, id) {
+            collect(code, id, (source) => this.parse(source));
+        },
+        // After Vite has dropped the empty chunks of CSS-only entries, and the isolated entries are built
+        generateBundle: {
+            order: "post",
+            handler(_options, bundle) {
+                const chunks = [...translatedChunks(bundle), ...nestedChunks];
+
+                this.emitFile({
+                    type: "asset",
+                    fileName: "i18n-map.json",
+                    source: JSON.stringify(
+                        Object.fromEntries(
+                            chunks.map((chunk) => [
+                                chunk.fileName,
+                                chunk.modules
+                                    .filter((id) => !id.startsWith("\0"))
+                                    .map(sourcePath),
+                            ])
+                        ),
+                        null,
+                        4
+                    ),
+                });
+
+                if (config.pot) {
+                    const potFile = resolve(resolvedConfig.root, config.pot);
+                    mkdirSync(dirname(potFile), { recursive: true });
+                    writeFileSync(
+                        potFile,
+                        renderPot(strings, config.textDomain)
+                    );
+                }
+
+                const languages = resolve(
+                    resolvedConfig.root,
+                    config.languages
+                );
+                if (!existsSync(languages)) {
+                    return;
+                }
+
+                const outDir = resolve(
+                    resolvedConfig.root,
+                    resolvedConfig.build.outDir
+                );
+                const poFiles = readdirSync(languages).filter(
+                    (file) =>
+                        file.startsWith(`${config.textDomain}-`) &&
+                        file.endsWith(".po")
+                );
+
+                poFiles.forEach((poFile) => {
+                    const locale = poFile.slice(
+                        config.textDomain.length + 1,
+                        -".po".length
+                    );
+                    const { headers, entries } = parsePo(
+                        readFileSync(join(languages, poFile), "utf-8")
+                    );
+                    const translations = new Map(
+                        entries.map((entry) => [
+                            translationKey(entry.id, entry.context),
+                            entry.translations,
+                        ])
+                    );
+
+                    chunks
+                        .filter((chunk) => chunk.isEntry)
+                        .forEach((chunk) => {
+                            const keys = new Set(
+                                chunk.reachable.flatMap((id) => [
+                                    ...(moduleStrings.get(id) ?? []),
+                                ])
+                            );
+                            const messages = [...keys]
+                                .filter((key) => translations.has(key))
+                                .map((key) => [key, translations.get(key)]);
+
+                            if (messages.length === 0) {
+                                return;
+                            }
+
+                            const source = scriptPath(
+                                join(outDir, chunk.fileName)
+                            );
+                            const hash = createHash("md5")
+                                .update(source)
+                                .digest("hex");
+
+                            this.emitFile({
+                                type: "asset",
+                                fileName: `languages/${config.textDomain}-${locale}-${hash}.json`,
+                                source: JSON.stringify({
+                                    "translation-revision-date":
+                                        headers["PO-Revision-Date"] ?? "",
+                                    generator: "wordpress-vite-plugin",
+                                    source,
+                                    domain: "messages",
+                                    locale_data: {
+                                        messages: {
+                                            "": {
+                                                domain: "messages",
+                                                lang:
+                                                    headers.Language ?? locale,
+                                                "plural-forms":
+                                                    headers["Plural-Forms"] ??
+                                                    "nplurals=2; plural=(n != 1);",
+                                            },
+                                            ...Object.fromEntries(messages),
+                                        },
+                                    },
+                                }),
+                            });
+                        });
+                });
+            },
+        },
+    };
+}
@@ -2,13 +2,71 @@ import {
     existsSync,
     mkdirSync,
     rmSync,
-    writeFileSync,
     readFileSync,
 } from "node:fs";
-import wpGlobals from "./wpGlobals.js";
+import wpGlobals, {
+    ExternalsConfig,
+    GlobalsConfig,
+    scriptModuleExternals,
+    requiresWpWarnings,
+    wp_globals,
+    wp_script_modules,
+} from "./wpGlobals.js";
+import wpDevGlobals, { entryHandles } from "./devGlobals.js";
+import wpAssetFiles from "./assetFiles.js";
+import wpPhpLoader from "./phpLoader.js";
+import wpProxy from "./proxy.js";
+import wpI18n, { I18nConfig } from "./i18n.js";
+import wpEditorStyles, { editorEntry } from "./editorStyles.js";
+import wpIsolatedEntries, { IsolatedEntry } from "./isolatedEntries.js";
+import wpEntries, {
+    EntryFormat,
+    entryPaths,
+    InputConfig,
+    resolveEntries,
+    resolveEntryFormat,
+    resolveEntrySettings,
+    uniqueNames,
+} from "./entries.js";
+import wpChunks, { ChunksConfig, ChunkStrategy } from "./chunks.js";
+import wpIntegrity, { IntegrityAlgorithm } from "./integrity.js";
+import wpHooks, { runHook, WordpressHooks } from "./hooks.js";
+import wpManifest from "./manifest.js";
+import {
+    healthPath,
+    readHotFile,
+    updateHotFile,
+    writeHotFile,
+} from "./hotFile.js";
+import { registerProjectStatus } from "./status.js";
+import wpReactRefresh, {
+    isReactRefreshActive,
+    reactRefreshPath,
+} from "./reactRefresh.js";
+import wpRefresh, {
+    detectRefreshPreset,
+    isRefreshPreset,
+    RefreshAction,
+    refreshClientPath,
+    RefreshPreset,
+    refreshPresets,
+} from "./refresh.js";
+import wpEditorCanvas, { editorCanvasClientPath } from "./editorCanvas.js";
+import wpBlocks, {
+    discoverBlocks,
+    resolveBlockInputs,
+    resolveBlockScripts,
+} from "./blocks.js";
+import { detectWordpressLayout, WordpressPaths } from "./wpEnvironment.js";
+import {
+    Certificate,
+    discoverCertificate,
+    readCertificate,
+    resolveCertificate,
+} from "./certificates.js";
 import { fileURLToPath } from "node:url";
 import { AddressInfo } from "node:net";
-import { join, resolve } from "node:path";
+import { isAbsolute, join, relative, resolve } from "node:path";
 import colors from "picocolors";
 import {
     Plugin,
@@ -18,6 +76,9 @@ import {
     ResolvedConfig,
     SSROptions,
     PluginOption,
+    normalizePath,
+    createFilter,
+    Logger,
 } from "vite";
 import fullReload, {
     Config as FullReloadConfig,
@@ -30,14 +91,17 @@ interface PluginConfig {
     namespace: string;
 
     /**
-     * The path or paths of the entry points to compile.
+     * The path or paths of the entry points to compile, or entries keyed by their name with a path
+     * or an object of settings: the screens to enqueue the entry on, its handle, its dependencies,
+     * its own `localReact` and its output format. The settings are written to the manifest for
+     * the PHP loader.
      */
-    input: string | string[];
+    input: InputConfig;
 
     /**
      * Wordpress's public directory.
      *
-     * @default 'public'
+     * @default `${uploadsDirectory}/scw-vite-hmr/${namespace}`
      */
     publicDirectory?: string;
 
@@ -61,10 +125,19 @@ interface PluginConfig {
     hotFile?: string;
 
     /**
-     * The path of the SSR entry point.
+     * The path of the SSR entry point. Its default export renders a page for the
+     * `wordpress-vite ssr` render server.
+     *
+     * @default input
      */
     ssr?: string | string[];
 
+    /**
+     * Keep dependencies external in the SSR bundle, bundling only this plugin.
+     * By default everything is bundled so the render server runs without `node_modules`.
+     *
+     * @default false
+     */
     ssrExternal?: boolean;
 
     /**
@@ -75,12 +148,22 @@ interface PluginConfig {
     ssrOutputDirectory?: string;
 
     /**
-     * Configuration for performing full page refresh on blade (or other) file changes.
+     * Configuration for refreshing the page on PHP (or other) file changes.
+     *
+     * The `theme` and `plugin` presets watch PHP files and `block.json`, and themes also `theme.json`,
+     * `styles/*.json`, `templates/*.html` and `parts/*.html`. `true` picks the preset matching the project.
+     * Paths with an `action` override the preset for the files they match, while paths without one
+     * perform a full reload through vite-plugin-full-reload.
      *
      * {@link https://github.com/ElMassimo/vite-plugin-full-reload}
      * @default false
      */
-    refresh?: boolean | string | string[] | RefreshConfig | RefreshConfig[];
+    refresh?:
+        | boolean
+        | RefreshPreset
+        | string
+        | (RefreshPreset | string | RefreshConfig)[]
+        | RefreshConfig;
 
     /**
      * Transform the code while serving.
@@ -88,32 +171,199 @@ interface PluginConfig {
     transformOnServe?: (code: string, url: DevServerUrl) => string;
 
     /**
-     * Enable using local React instance rather than the one on the window
+     * Hooks into the dev server and the build, receiving the resolved plugin config: after the hot
+     * file is written, when the dev server shuts down, before the manifest is written, and when a
+     * refresh path reloads the page. The dev server logs the errors of its hooks, while the build
+     * fails on them.
+     *
+     * @default {}
+     */
+    hooks?: WordpressHooks<Required<PluginConfig>>;
+
+    /**
+     * Enable using local React instance rather than the one on the window.
+     * Shorthand for excluding `react` and `react-dom` from the externals.
      */
     localReact?: boolean;
 
+    /**
+     * The oldest Wordpress version the theme or plugin supports. Only the packages it provides are
+     * loaded from Wordpress, the newer ones are bundled with a warning, and the build warns when
+     * the `Requires at least` header of the theme or plugin is older.
+     *
+     * @default the version of the Wordpress installation the project is in
+     */
+    requiresWp?: string;
+
+    /**
+     * Additional module to window global mappings, presets for other ecosystems
+     * and default externals to bundle instead.
+     */
+    externals?: ExternalsConfig;
+
     /**
      * Create a separate vendor file
+     *
+     * @deprecated Use `chunks: "vendor"` instead.
      */
     splitVendor?: boolean;
+
+    /**
+     * How modules are grouped into shared chunks: all dependencies in one `vendor` chunk, a chunk
+     * per `package`, per `context` of the entries importing them, or the modules `shared` by several
+     * entries. Each chunk gets a script handle in the manifest, so entries on the same page share it.
+     * Ignored when `manualChunks` is set in the Rollup output options.
+     *
+     * @default false, or 'vendor' with splitVendor
+     */
+    chunks?: ChunkStrategy | ChunksConfig | false;
+
+    /**
+     * Emit an `[name].asset.php` file per entry listing its Wordpress script dependencies
+     *
+     * @default true
+     */
+    assetFiles?: boolean;
+
+    /**
+     * The algorithm of the Subresource Integrity hashes added with content versions to the manifest
+     * and asset files, which the PHP loader prints as `integrity` attributes. Pass `false` to add
+     * only the versions.
+     *
+     * @default 'sha384'
+     */
+    integrity?: IntegrityAlgorithm | false;
+
+    /**
+     * A directory to scan for `block.json` files whose `file:` assets should be compiled.
+     *
+     * @default false
+     */
+    blocks?: string | false;
+
+    /**
+     * Import packages Wordpress ships as both scripts and script modules (e.g. `@wordpress/a11y`)
+     * through the import map rather than `window.wp`. Module-only packages such as
+     * `@wordpress/interactivity` are always left as ESM imports.
+     *
+     * @default false
+     */
+    scriptModules?: boolean;
+
+    /**
+     * Write a namespaced `loader.php` and a `manifest.php` into the build directory
+     * for enqueueing entries from the dev server or the build.
+     *
+     * @default true
+     */
+    phpLoader?: boolean;
+
+    /**
+     * The output format of entries, keyed by their path. `iife` entries are built as self-contained
+     * classic scripts for code that cannot load as a module, and flagged in the manifest so the PHP
+     * loader enqueues them without `type="module"`. The dev server serves every entry as a module.
+     *
+     * @default {}
+     */
+    formats?: Record<string, EntryFormat>;
+
+    /**
+     * Paths of the Wordpress installation, overriding those detected by walking up
+     * from the project for `wp-config.php` and `wp-load.php`.
+     */
+    wordpress?: WordpressPaths;
+
+    /**
+     * Serve over HTTPS with a certificate for the host of APP_URL. `auto` serves over HTTPS when APP_URL
+     * does and Valet, Herd, Local, DDEV or mkcert keep a certificate for its host, and over HTTP
+     * otherwise. `true` always serves over HTTPS, generating a certificate in a cache directory when
+     * none is found: with mkcert when it is installed, or else a self-signed one that browsers block
+     * until it is accepted.
+     * The `VITE_DEV_SERVER_KEY` and `VITE_DEV_SERVER_CERT` environment variables take precedence.
+     *
+     * @default 'auto'
+     */
+    https?: boolean | "auto";
+
+    /**
+     * Proxy the Wordpress site through the dev server, injecting the Vite client into its pages
+     * while the PHP loader enqueues the entries. Pass a URL to proxy a site other than `APP_URL`.
+     *
+     * @default false
+     */
+    proxy?: boolean | string;
+
+    /**
+     * Collect translatable strings into a POT file and turn `.po` files into the JSON
+     * translations Wordpress loads for each entry.
+     *
+     * @default false
+     */
+    i18n?: boolean | I18nConfig;
+
+    /**
+     * CSS entries to also build an editor variant of, with every rule scoped under
+     * `.editor-styles-wrapper`. Enqueue the variant as `${entry}?editor`.
+     *
+     * @default []
+     */
+    editorStyles?: string | string[];
+}
+
+interface ProjectConfig extends PluginConfig {
+    /**
+     * The directory of the theme or plugin, relative to the directory Vite is run from.
+     */
+    directory: string;
 }
 
 interface RefreshConfig {
     paths: string[];
+
+    /**
+     * How the page reacts to a change, instead of a full reload through vite-plugin-full-reload
+     */
+    action?: RefreshAction;
     config?: FullReloadConfig;
 }
 
 interface WordpressPlugin extends Plugin {
     config: (config: UserConfig, env: ConfigEnv) => UserConfig;
     name: string;
+
+    /**
+     * The resolved configuration of the project, read by the doctor command
+     */
+    pluginConfig: Required<PluginConfig>;
 }
 
 type DevServerUrl = `${"http" | "https"}://${string}:${number}`;
 
 let exitHandlersBound = false;
 
+const hotFilesToClean = new Set<string>();
+
+const closeHandlers = new Set<() => Promise<void>>();
+
+/**
+ * @deprecated `refresh: true` now uses the `theme` or `plugin` preset.
+ */
 export const refreshPaths = ["resources/views/**"];
 
+export { isHotFileStale, readHotFile } from "./hotFile.js";
+
+export { detectWordpressLayout } from "./wpEnvironment.js";
+export { startSsrServer } from "./ssrServer.js";
+export type { SsrPage, SsrRender, SsrResult } from "./ssrServer.js";
+export type { WordpressLayout, WordpressPaths } from "./wpEnvironment.js";
+export type {
+    HotFileContext,
+    ManifestContext,
+    RefreshContext,
+    ServerClosedContext,
+    WordpressHooks,
+} from "./hooks.js";
+
 /**
  * Wordpress plugin for Vite.
  *
@@ -124,47 +374,308 @@ export function wordpress(
 ): [WordpressPlugin, ...Plugin[]] {
     const pluginConfig = resolvePluginConfig(config);
 
+    return [
+        resolveWordpressPlugin(pluginConfig),
+        ...resolveProjectPlugins(pluginConfig),
+        ...resolveGlobalsPlugins(pluginConfig),
+        ...resolveProxyPlugins(pluginConfig),
+    ];
+}
+
+/**
+ * Wordpress plugin for Vite, serving several themes and plugins from one dev server.
+ *
+ * Each project keeps its own inputs, hot file and build directory, with its dev server URLs
+ * prefixed by its directory. The externals and proxy of the first project apply to the whole dev server.
+ * Builds produce one project at a time, selected with the WORDPRESS_PROJECT environment variable.
+ *
+ * @param projects - A config object per project, each with the directory it lives in.
+ */
+export function wordpressProjects(projects: ProjectConfig[]): Plugin[] {
+    if (projects.length === 0) {
+        throw new Error(
+            "wordpress-vite-plugin: at least one project is required."
+        );
+    }
+
+    const selected = process.env.WORDPRESS_PROJECT;
+    const buildProject =
+        projects.length === 1
+            ? projects[0]
+            : projects.find((project) => project.namespace === selected);
+
+    const serveConfigs = projects.map((project) =>
+        resolveProjectConfig(project, true)
+    );
+
+    const servePlugins = serveConfigs.flatMap((pluginConfig, index) => [
+        resolveWordpressPlugin(pluginConfig, projects[index].directory),
+        ...resolveProjectPlugins(
+            pluginConfig,
+            resolve(projects[index].directory)
+        ),
+        ...(index === 0
+            ? [
+                  ...resolveGlobalsPlugins(pluginConfig),
+                  ...resolveProxyPlugins(pluginConfig),
+              ]
+            : []),
+    ]);
+
+    const buildPlugins: Plugin[] = buildProject
+        ? [
+              {
+                  name: "wordpress:project-root",
+                  config: () => ({ root: resolve(buildProject.directory) }),
+              },
+              ...(() => {
+                  const pluginConfig = resolveProjectConfig(
+                      buildProject,
+                      false
+                  );
+
+                  return [
+                      resolveWordpressPlugin(pluginConfig),
+                      ...resolveProjectPlugins(pluginConfig),
+                      ...resolveGlobalsPlugins(pluginConfig),
+                  ];
+              })(),
+          ]
+        : [
+              {
+                  name: "wordpress:project-root",
+                  config: () => {
+                      throw new Error(
+                          `wordpress-vite-plugin: set WORDPRESS_PROJECT to the namespace of the project to build. One of: ${projects
+                              .map((project) => project.namespace)
+                              .join(", ")}`
+                      );
+                  },
+              },
+          ];
+
+    return [
+        ...servePlugins.map((plugin) => applyOnly(plugin, "serve")),
+        ...buildPlugins.map((plugin) => applyOnly(plugin, "build")),
+    ].filter((plugin): plugin is Plugin => plugin !== undefined);
+}
+
+/**
+ * Restrict a plugin to a single command, or drop it if it never applies to that command.
+ */
+function applyOnly(
+    plugin: Plugin,
+    command: "build" | "serve"
+): Plugin | undefined {
+    const apply = plugin.apply;
+
+    if (typeof apply === "string") {
+        return apply === command ? plugin : undefined;
+    }
+
+    return {
+        ...plugin,
+        apply: (config, env) =>
+            env.command === command &&
+            (typeof apply === "function" ? apply(config, env) : true),
+    };
+}
+
+function ensurePublicDirectoryExists(
+    pluginConfig: Required<PluginConfig>
+): void {
     if (existsSync(pluginConfig.publicDirectory) === false) {
         mkdirSync(pluginConfig.publicDirectory, { recursive: true });
     }
+}
 
+/**
+ * Resolve the plugins that belong to a single theme or plugin.
+ */
+function resolveProjectPlugins(
+    pluginConfig: Required<PluginConfig>,
+    root?: string
+): Plugin[] {
+    const globalsConfig = resolveGlobalsConfig(pluginConfig);
+    const outDir = resolveOutDir(pluginConfig, false);
+    const i18nConfig = resolveI18nConfig(pluginConfig);
+
+    return [
+        ...(pluginConfig.assetFiles
+            ? [wpAssetFiles(globalsConfig, pluginConfig.integrity)]
+            : []),
+        requiresWpWarnings(globalsConfig, root),
+        ...(pluginConfig.blocks
+            ? [
+                  wpBlocks({
+                      directory: pluginConfig.blocks,
+                      hotFile: pluginConfig.hotFile,
+                      outDir,
+                  }),
+              ]
+            : []),
+        ...(i18nConfig
+            ? [
+                  wpI18n({
+                      ...i18nConfig,
+                      contentDirectory:
+                          pluginConfig.wordpress.contentDirectory,
+                  }),
+              ]
+            : []),
+        ...(pluginConfig.editorStyles.length
+            ? [
+                  wpEditorStyles({
+                      entries: resolveInputPaths(pluginConfig.editorStyles),
+                      selector: ".editor-styles-wrapper",
+                  }),
+              ]
+            : []),
+        wpIsolatedEntries({
+            entries: resolveIsolatedEntries(pluginConfig),
+            assetFiles: pluginConfig.assetFiles,
+            integrity: pluginConfig.integrity,
+        }),
+        wpEntries(
+            pluginConfig.input,
+            pluginConfig.localReact,
+            pluginConfig.formats
+        ),
+        ...(pluginConfig.chunks
+            ? [
+                  wpChunks(
+                      typeof pluginConfig.chunks === "string"
+                          ? { strategy: pluginConfig.chunks }
+                          : pluginConfig.chunks,
+                      pluginConfig.input,
+                      pluginConfig.namespace
+                  ),
+              ]
+            : []),
+        wpManifest(),
+        wpIntegrity(pluginConfig.integrity),
+        wpHooks(pluginConfig.hooks, pluginConfig),
+        ...(pluginConfig.phpLoader
+            ? [
+                  wpPhpLoader({
+                      namespace: pluginConfig.namespace,
+                      hotFile: pluginConfig.hotFile,
+                      outDir,
+                      textDomain: i18nConfig
+                          ? i18nConfig.textDomain
+                          : undefined,
+                  }),
+              ]
+            : []),
+        ...(resolveFullReloadConfig(pluginConfig, root) as Plugin[]),
+        ...resolveRefreshPlugins(pluginConfig, root),
+    ];
+}
+
+/**
+ * Resolve the plugins mapping Wordpress's packages onto its window globals.
+ */
+function resolveGlobalsPlugins(pluginConfig: Required<PluginConfig>): Plugin[] {
+    const globalsConfig = resolveGlobalsConfig(pluginConfig);
+
+    // The window globals only exist in the browser, so SSR builds bundle the packages instead
     const globalsPlugin = {
-        ...wpGlobals({ localReact: pluginConfig.localReact }),
-        apply: "build",
+        ...wpGlobals(globalsConfig),
+        apply: (_config, { command, isSsrBuild }) =>
+            command === "build" && !isSsrBuild,
     } as Plugin;
 
     return [
-        resolveWordpressPlugin(pluginConfig),
+        scriptModuleExternals(globalsConfig),
         globalsPlugin,
-        ...(resolveFullReloadConfig(pluginConfig) as Plugin[]),
+        wpDevGlobals(globalsConfig),
+        wpEditorCanvas(),
+        ...(pluginConfig.localReact ? [] : [wpReactRefresh()]),
+    ];
+}
+
+/**
+ * Resolve the plugin proxying the Wordpress site through the dev server.
+ */
+function resolveProxyPlugins(pluginConfig: Required<PluginConfig>): Plugin[] {
+    if (pluginConfig.proxy === false) {
+        return [];
+    }
+
+    return [
+        wpProxy({
+            target:
+                typeof pluginConfig.proxy === "string"
+                    ? pluginConfig.proxy
+                    : undefined,
+        }),
     ];
 }
 
+/**
+ * Resolve the translation options, or false when translations are disabled.
+ */
+function resolveI18nConfig(
+    pluginConfig: Required<PluginConfig>
+): Required<I18nConfig> | false {
+    if (pluginConfig.i18n === false) {
+        return false;
+    }
+
+    const config = pluginConfig.i18n === true ? {} : pluginConfig.i18n;
+    const textDomain = config.textDomain ?? pluginConfig.namespace;
+
+    return {
+        textDomain,
+        pot: config.pot ?? `languages/${textDomain}.pot`,
+        languages: config.languages ?? "languages",
+    };
+}
+
+function resolveGlobalsConfig(
+    pluginConfig: Required<PluginConfig>
+): GlobalsConfig {
+    return {
+        localReact: pluginConfig.localReact,
+        scriptModules: pluginConfig.scriptModules,
+        externals: pluginConfig.externals,
+        requiresWp: pluginConfig.requiresWp || undefined,
+    };
+}
+
 /**
  * Resolve the Wordpress Plugin configuration.
  */
 function resolveWordpressPlugin(
-    pluginConfig: Required<PluginConfig>
+    pluginConfig: Required<PluginConfig>,
+    basePath = ""
 ): WordpressPlugin {
     let viteDevServerUrl: DevServerUrl;
     let resolvedConfig: ResolvedConfig;
     let userConfig: UserConfig;
+    let certificate: Certificate | undefined;
 
     const defaultAliases: Record<string, string> = {
-        "@": "/resources/js",
+        "@": basePath ? `/${basePath}/resources/js` : "/resources/js",
     };
 
     return {
         name: "wordpress",
         enforce: "post",
+        pluginConfig,
         config: (config, { command, mode, isSsrBuild }) => {
             userConfig = config;
-            const ssr = !!userConfig.build?.ssr;
+            const ssr = !!userConfig.build?.ssr || !!isSsrBuild;
             const env = loadEnv(mode, userConfig.envDir || process.cwd(), "");
             const serverConfig =
                 command === "serve"
-                    ? resolveEnvironmentServerConfig(env)
+                    ? resolveEnvironmentServerConfig(
+                          env,
+                          userConfig.server?.https ? false : pluginConfig.https,
+                          resolve(userConfig.root ?? process.cwd(), basePath)
+                      )
                     : undefined;
+            certificate = serverConfig?.certificate;
 
             ensureCommandShouldRunInEnvironment(command, env);
 
@@ -172,27 +683,13 @@ function resolveWordpressPlugin(
              * On SSR build, we want to maintain an .mjs extension so it can run in locations without
              * a package.json file marking it as a "module".
              *
-             * On normal builds, default Vite code-splitting was causing issues on Inertia builds, and
-             * so the "splitVendor" option is a workaround for that.
+             * On normal builds, shared chunks are grouped by the "chunks" option.
              */
             const rollupOptionsOutput = isSsrBuild
                 ? {
                       entryFileNames: "[name].mjs",
                   }
-                : Object.assign(
-                      userConfig.build?.rollupOptions?.output ?? {},
-                      pluginConfig.splitVendor
-                          ? {
-                                manualChunks: function manualChunks(
-                                    id: string
-                                ) {
-                                    if (id.includes("node_modules")) {
-                                        return "vendor";
-                                    }
-                                },
-                            }
-                          : undefined
-                  );
+                : (userConfig.build?.rollupOptions?.output ?? {});
 
             return {
                 base: userConfig.base ?? (command === "build" ? "./" : ""),
@@ -211,7 +708,7 @@ function resolveWordpressPlugin(
                     rollupOptions: {
                         input:
                             userConfig.build?.rollupOptions?.input ??
-                            resolveInput(pluginConfig, ssr),
+                            resolveModuleInput(pluginConfig, ssr),
                         output: rollupOptionsOutput,
                     },
                     assetsInlineLimit: userConfig.build?.assetsInlineLimit ?? 0,
@@ -224,6 +721,9 @@ function resolveWordpressPlugin(
                         ? {
                               host:
                                   userConfig.server?.host ?? serverConfig.host,
+                              https:
+                                  userConfig.server?.https ??
+                                  serverConfig.https,
                               hmr:
                                   userConfig.server?.hmr === false
                                       ? false
@@ -267,6 +767,10 @@ function resolveWordpressPlugin(
         configResolved(config) {
             resolvedConfig = config;
         },
+        buildStart() {
+            // Only once the dev server or build starts, so loading the config doesn't touch the disk
+            ensurePublicDirectoryExists(pluginConfig);
+        },
         transform(code: string) {
             if (resolvedConfig.command === "serve") {
                 code = code.replace(
@@ -283,6 +787,48 @@ function resolveWordpressPlugin(
                 loadEnv(resolvedConfig.mode, envDir, "APP_URL").APP_URL ??
                 "undefined";
 
+            // The loader enqueues the scripts whose globals the dev shims of each entry read
+            const projectRoot = resolve(resolvedConfig.root, basePath);
+            const entryUrls = Object.fromEntries(
+                entryPaths(pluginConfig.input).map((path) => [
+                    normalizePath(
+                        relative(
+                            projectRoot,
+                            resolve(resolvedConfig.root, path)
+                        )
+                    ),
+                    `/${resolveDevPath(path, resolvedConfig.root)}`,
+                ])
+            );
+            let dependencies: string | undefined;
+            let dependenciesTimeout: NodeJS.Timeout | undefined;
+            const updateDependencies = async () => {
+                const handles = await entryHandles(
+                    server,
+                    entryUrls,
+                    resolveGlobalsConfig(pluginConfig)
+                );
+
+                if (JSON.stringify(handles) !== dependencies) {
+                    dependencies = JSON.stringify(handles);
+                    updateHotFile(pluginConfig.hotFile, {
+                        dependencies: handles,
+                    });
+                }
+            };
+            const onChange = () => {
+                if (dependencies === undefined) {
+                    return;
+                }
+
+                clearTimeout(dependenciesTimeout);
+                dependenciesTimeout = setTimeout(updateDependencies, 100);
+            };
+
+            server.watcher.on("add", onChange);
+            server.watcher.on("change", onChange);
+            server.watcher.on("unlink", onChange);
+
             server.httpServer?.once("listening", () => {
                 const address = server.httpServer?.address();
 
@@ -294,43 +840,163 @@ function resolveWordpressPlugin(
                         address,
                         server.config
                     );
-                    writeFileSync(pluginConfig.hotFile, viteDevServerUrl);
+                    const hotFile = writeHotFile(pluginConfig.hotFile, {
+                        url: viteDevServerUrl,
+                        base: basePath || undefined,
+                        namespace: pluginConfig.namespace,
+                        inputs: resolveInputPaths(
+                            resolveInput(pluginConfig, false)
+                        ),
+                        entries: resolveEntrySettings(
+                            pluginConfig.input,
+                            resolvedConfig.root,
+                            { projectRoot }
+                        ),
+                        reactRefresh: isReactRefreshActive(resolvedConfig),
+                        reactRefreshPreamble: isReactRefreshActive(
+                            resolvedConfig
+                        )
+                            ? `${viteDevServerUrl}${reactRefreshPath}`
+                            : undefined,
+                        refreshClient: resolveRefreshRules(pluginConfig).length
+                            ? `${viteDevServerUrl}${refreshClientPath}`
+                            : undefined,
+                        editorCanvasClient: `${viteDevServerUrl}${editorCanvasClientPath}`,
+                        version: pluginVersion(),
+                    });
+
+                    runHook(
+                        "hotFileWritten",
+                        pluginConfig.hooks.hotFileWritten,
+                        {
+                            config: pluginConfig,
+                            url: viteDevServerUrl,
+                            hotFile,
+                        },
+                        server.config.logger
+                    );
+
+                    updateDependencies();
 
                     setTimeout(() => {
                         server.config.logger.info(
                             `\n  ${colors.blue(
                                 `${colors.bold(
                                     "WORDPRESS"
-                                )} ${wordpressVersion()}`
+                                )} ${wordpressVersion(pluginConfig.wordpress)}`
                             )}  ${colors.dim("plugin")} ${colors.bold(
                                 `v${pluginVersion()}`
                             )}`
                         );
+
+                        if (certificate) {
+                            server.config.logger.info(
+                                `  ${colors.green("➜")}  ${colors.bold(
+                                    "HTTPS"
+                                )}: ${certificate.source} certificate ${colors.dim(
+                                    certificate.cert
+                                )}`
+                            );
+                        }
                     }, 100);
                 }
             });
 
-            if (!exitHandlersBound) {
-                const clean = () => {
+            hotFilesToClean.add(pluginConfig.hotFile);
+
+            let closed: Promise<void> | undefined;
+            const close = () =>
+                (closed ??= (async () => {
                     if (existsSync(pluginConfig.hotFile)) {
                         rmSync(pluginConfig.hotFile);
                     }
+
+                    await runHook(
+                        "serverClosed",
+                        pluginConfig.hooks.serverClosed,
+                        { config: pluginConfig, url: viteDevServerUrl },
+                        server.config.logger
+                    );
+                })());
+
+            server.httpServer?.once("close", close);
+            closeHandlers.add(close);
+
+            if (!exitHandlersBound) {
+                const clean = () => {
+                    hotFilesToClean.forEach((hotFile) => {
+                        if (existsSync(hotFile)) {
+                            rmSync(hotFile);
+                        }
+                    });
+                };
+
+                // Give the serverClosed hooks a chance to finish, unless the signal is sent again
+                let exiting = false;
+                const exit = () => {
+                    if (exiting) {
+                        process.exit();
+                    }
+
+                    exiting = true;
+                    Promise.all(
+                        [...closeHandlers].map((close) => close())
+                    ).finally(() => process.exit());
                 };
 
                 process.on("exit", clean);
-                process.on("SIGINT", process.exit);
-                process.on("SIGTERM", process.exit);
-                process.on("SIGHUP", process.exit);
+                process.on("SIGINT", exit);
+                process.on("SIGTERM", exit);
+                process.on("SIGHUP", exit);
 
                 exitHandlersBound = true;
             }
 
+            server.middlewares.use(healthPath, (_req, res) => {
+                res.setHeader("Content-Type", "application/json");
+                res.end(JSON.stringify({ ok: true, pid: process.pid }));
+            });
+
+            registerProjectStatus(server, pluginConfig.namespace, () => {
+                const globalsConfig = resolveGlobalsConfig(pluginConfig);
+
+                return {
+                    namespace: pluginConfig.namespace,
+                    base: basePath || undefined,
+                    inputs: resolveInputPaths(
+                        resolveInput(pluginConfig, false)
+                    ).map((path) => ({
+                        path,
+                        url: `${viteDevServerUrl}/${resolveDevPath(
+                            path,
+                            server.config.root
+                        )}`,
+                    })),
+                    hotFile: {
+                        path: pluginConfig.hotFile,
+                        contents: readHotFile(pluginConfig.hotFile),
+                    },
+                    wordpress: {
+                        version: wordpressVersion(pluginConfig.wordpress),
+                        layout: pluginConfig.wordpress,
+                    },
+                    refresh: resolveRefreshConfig(pluginConfig).flatMap(
+                        (c) =>
+                            c.paths.map((path) =>
+                                c.action ? `${path} (${c.action})` : path
+                            )
+                    ),
+                    externals: wp_globals(globalsConfig),
+                    scriptModules: wp_script_modules(globalsConfig),
+                };
+            });
+
             return () =>
                 server.middlewares.use((req, res, next) => {
                     if (req.url === "/index.html") {
                         res.statusCode = 404;
 
-                        res.end(
+                        return res.end(
                             readFileSync(
                                 join(dirname(), "dev-server-index.html")
                             )
@@ -366,9 +1032,16 @@ function ensureCommandShouldRunInEnvironment(
 /**
  * The version of Wordpress being run.
  */
-function wordpressVersion(): string {
+function wordpressVersion(layout: WordpressPaths): string {
+    if (!layout.coreDirectory) {
+        return "";
+    }
+
     try {
-        const versionPath = resolve("../../../wp-includes/version.php");
+        const versionPath = join(
+            layout.coreDirectory,
+            "wp-includes/version.php"
+        );
         const versionFile = readFileSync(versionPath, "utf-8");
         const versionMatch = versionFile.match(/^(?:\$wp_version = )(.+?);$/m);
         let version;
@@ -397,7 +1070,10 @@ function pluginVersion(): string {
 /**
  * Convert the users configuration into a standard structure with defaults.
  */
-function resolvePluginConfig(config: PluginConfig): Required<PluginConfig> {
+function resolvePluginConfig(
+    config: PluginConfig,
+    root: string = process.cwd()
+): Required<PluginConfig> {
     if (typeof config === "undefined") {
         throw new Error("wordpress-vite-plugin: missing configuration.");
     }
@@ -420,8 +1096,8 @@ function resolvePluginConfig(config: PluginConfig): Required<PluginConfig> {
         );
     }
 
-    if (config.ssr === "undefined") {
-        config.ssr = config.input;
+    if (typeof config.ssr === "undefined") {
+        config.ssr = entryPaths(config.input);
     }
 
     if (typeof config.publicDirectory === "string") {
@@ -457,11 +1133,14 @@ function resolvePluginConfig(config: PluginConfig): Required<PluginConfig> {
     }
 
     if (config.refresh === true) {
-        config.refresh = [{ paths: refreshPaths }];
+        config.refresh = detectRefreshPreset(root);
     }
 
+    const wordpress = detectWordpressLayout(root, config.wordpress);
+
     const defaultPublic = resolve(
-        `${process.cwd()}/../../uploads/scw-vite-hmr/${config.namespace}`
+        wordpress.uploadsDirectory ?? `${root}/../../uploads`,
+        `scw-vite-hmr/${config.namespace}`
     );
 
     const publicDirectory = config.publicDirectory ?? defaultPublic;
@@ -472,15 +1151,78 @@ function resolvePluginConfig(config: PluginConfig): Required<PluginConfig> {
         publicDirectory,
         emptyOutDir: config.emptyOutDir ?? true,
         buildDirectory: config.buildDirectory ?? "build",
-        ssr: config.ssr ?? config.input,
+        ssr: config.ssr ?? entryPaths(config.input),
         ssrOutputDirectory:
-            config.ssrOutputDirectory ?? join(publicDirectory, "ssr"),
+            config.ssrOutputDirectory ?? resolve(root, "bootstrap/ssr"),
         ssrExternal: config.ssrExternal ?? false,
         refresh: config.refresh ?? false,
         hotFile: config.hotFile ?? join(publicDirectory, "hot"),
         transformOnServe: config.transformOnServe ?? ((code) => code),
+        hooks: config.hooks ?? {},
         splitVendor: config.splitVendor ?? false,
+        chunks: config.chunks ?? (config.splitVendor ? "vendor" : false),
         localReact: config.localReact ?? false,
+        requiresWp: config.requiresWp ?? wordpressVersion(wordpress),
+        externals: config.externals ?? {},
+        assetFiles: config.assetFiles ?? true,
+        integrity: config.integrity ?? "sha384",
+        blocks: config.blocks ?? false,
+        scriptModules: config.scriptModules ?? false,
+        phpLoader: config.phpLoader ?? true,
+        formats: config.formats ?? {},
+        wordpress,
+        https: config.https ?? "auto",
+        proxy: config.proxy ?? false,
+        i18n: config.i18n ?? false,
+        editorStyles:
+            typeof config.editorStyles === "string"
+                ? [config.editorStyles]
+                : (config.editorStyles ?? []),
+    };
+}
+
+/**
+ * Resolve a project's configuration, making its paths absolute from the project directory.
+ * Inputs are prefixed with the directory when served from a shared dev server root.
+ */
+function resolveProjectConfig(
+    project: ProjectConfig,
+    prefixInput: boolean
+): Required<PluginConfig> {
+    const { directory, ...config } = project;
+    const root = resolve(directory);
+    const prefix = (path: string) => normalizePath(join(directory, path));
+
+    if (prefixInput && typeof config.input !== "undefined") {
+        config.input =
+            typeof config.input === "string"
+                ? prefix(config.input)
+                : Array.isArray(config.input)
+                  ? config.input.map(prefix)
+                  : Object.fromEntries(
+                        Object.entries(config.input).map(([name, entry]) => [
+                            name,
+                            typeof entry === "string"
+                                ? prefix(entry)
+                                : { ...entry, path: prefix(entry.path) },
+                        ])
+                    );
+    }
+
+    if (prefixInput && typeof config.editorStyles !== "undefined") {
+        config.editorStyles = Array.isArray(config.editorStyles)
+            ? config.editorStyles.map(prefix)
+            : prefix(config.editorStyles);
+    }
+
+    const pluginConfig = resolvePluginConfig(config, root);
+
+    return {
+        ...pluginConfig,
+        publicDirectory: resolve(root, pluginConfig.publicDirectory),
+        hotFile: resolve(root, pluginConfig.hotFile),
+        ssrOutputDirectory: resolve(root, pluginConfig.ssrOutputDirectory),
+        blocks: pluginConfig.blocks && resolve(root, pluginConfig.blocks),
     };
 }
 
@@ -490,12 +1232,149 @@ function resolvePluginConfig(config: PluginConfig): Required<PluginConfig> {
 function resolveInput(
     config: Required<PluginConfig>,
     ssr: boolean
-): string | string[] | undefined {
+): string | string[] | Record<string, string> | undefined {
     if (ssr) {
         return config.ssr;
     }
 
-    return config.input;
+    const entries = Object.fromEntries(
+        Object.entries(resolveEntries(config.input)).map(([name, entry]) => [
+            name,
+            entry.path,
+        ])
+    );
+    const blocks = config.blocks
+        ? resolveBlockInputs(discoverBlocks(config.blocks))
+        : {};
+    const editorStyles = resolveInputPaths(config.editorStyles);
+    const editorNames = uniqueNames(
+        editorStyles,
+        [...Object.keys(entries), ...Object.keys(blocks)],
+        "-editor"
+    );
+
+    // Named by the plugin rather than by Rollup, so each entry keeps the name its settings,
+    // isolated build and asset file are recorded under
+    return {
+        ...entries,
+        ...Object.fromEntries(
+            editorStyles.map((path, index) => [
+                editorNames[index],
+                editorEntry(path),
+            ])
+        ),
+        ...blocks,
+    };
+}
+
+/**
+ * Resolve the Rollup input of the ES module build, leaving out the classic script entries
+ * which are built separately.
+ */
+function resolveModuleInput(
+    config: Required<PluginConfig>,
+    ssr: boolean
+): string | string[] | Record<string, string> | undefined {
+    const input = resolveInput(config, ssr);
+    const isolated = resolveIsolatedEntries(config).map((entry) =>
+        normalizePath(entry.path).replace(/^\.\//, "")
+    );
+
+    if (ssr || !isolated.length || typeof input === "undefined") {
+        return input;
+    }
+
+    const isModule = (path: string) =>
+        !isolated.includes(normalizePath(path).replace(/^\.\//, ""));
+
+    if (typeof input === "string") {
+        return isModule(input) ? input : [];
+    }
+
+    return Array.isArray(input)
+        ? input.filter(isModule)
+        : Object.fromEntries(
+              Object.entries(input).filter(([, path]) => isModule(path))
+          );
+}
+
+/**
+ * The entries built on their own, outside the shared module graph: classic scripts, including the
+ * block scripts, and entries bundling or externalising React differently from the rest of the project.
+ */
+function resolveIsolatedEntries(
+    config: Required<PluginConfig>
+): IsolatedEntry[] {
+    const blocks = config.blocks ? discoverBlocks(config.blocks) : [];
+    const blockScripts = resolveBlockScripts(blocks);
+    const blockEntries = Object.entries(resolveBlockInputs(blocks)).flatMap(
+        ([name, path]): IsolatedEntry[] =>
+            blockScripts.includes(path)
+                ? [
+                      {
+                          name,
+                          path: normalizePath(path),
+                          format: "iife",
+                          globals: resolveGlobalsConfig(config),
+                      },
+                  ]
+                : []
+    );
+
+    const entries = Object.entries(resolveEntries(config.input)).flatMap(
+        ([name, entry]) => {
+            const path = normalizePath(entry.path).replace(/^\.\//, "");
+            const format = resolveEntryFormat(entry, config.formats);
+            const localReact = entry.localReact ?? config.localReact;
+
+            if (format !== "iife" && localReact === config.localReact) {
+                return [];
+            }
+
+            return [
+                {
+                    name,
+                    path,
+                    format,
+                    globals: { ...resolveGlobalsConfig(config), localReact },
+                },
+            ];
+        }
+    );
+
+    return [...entries, ...blockEntries];
+}
+
+/**
+ * Flatten the resolved Rollup input into a list of entry paths.
+ */
+function resolveInputPaths(
+    input: string | string[] | Record<string, string> | undefined
+): string[] {
+    if (typeof input === "undefined") {
+        return [];
+    }
+
+    if (typeof input === "string") {
+        return [input];
+    }
+
+    return Array.isArray(input) ? input : Object.values(input);
+}
+
+/**
+ * Resolve the dev server path of a file, served from the filesystem when outside the root.
+ */
+function resolveDevPath(path: string, root: string): string {
+    if (!isAbsolute(path)) {
+        return normalizePath(path).replace(/^\.?\//, "");
+    }
+
+    const relativePath = relative(root, path);
+
+    return relativePath.startsWith("..") || isAbsolute(relativePath)
+        ? `@fs${normalizePath(path)}`
+        : normalizePath(relativePath);
 }
 
 /**
@@ -504,7 +1383,7 @@ function resolveInput(
 function resolveOutDir(
     config: Required<PluginConfig>,
     ssr: boolean
-): string | undefined {
+): string {
     if (ssr) {
         return config.ssrOutputDirectory;
     }
@@ -512,34 +1391,134 @@ function resolveOutDir(
     return join(config.publicDirectory, config.buildDirectory);
 }
 
-function resolveFullReloadConfig({
+function resolveFullReloadConfig(
+    pluginConfig: Required<PluginConfig>,
+    root?: string
+): PluginOption[] {
+    const configs = resolveRefreshConfig(pluginConfig).filter((c) => !c.action);
+    const refreshHook = pluginConfig.hooks.refresh;
+
+    return [
+        ...configs.flatMap((c) => {
+            const plugin = fullReload(
+                c.paths,
+                root ? { root, ...c.config } : c.config
+            );
+
+            /* eslint-disable-next-line @typescript-eslint/ban-ts-comment */
+            /** @ts-ignore */
+            plugin.__wordpress_plugin_config = c;
+
+            return plugin;
+        }),
+        ...(configs.length && refreshHook
+            ? [
+                  {
+                      name: "wordpress:full-reload-hook",
+                      apply: "serve",
+                      configureServer(server) {
+                          const matches = createFilter(
+                              configs.flatMap((c) => c.paths),
+                              undefined,
+                              { resolve: root ?? server.config.root }
+                          );
+
+                          const onChange = (file: string) => {
+                              if (matches(file)) {
+                                  runRefreshHook(
+                                      pluginConfig,
+                                      file,
+                                      "full-reload",
+                                      server.config.logger
+                                  );
+                              }
+                          };
+
+                          server.watcher.on("add", onChange);
+                          server.watcher.on("change", onChange);
+                      },
+                  } as Plugin,
+              ]
+            : []),
+    ];
+}
+
+/**
+ * Run the refresh hook for a changed file, with the dev server URL from the hot file.
+ */
+function runRefreshHook(
+    pluginConfig: Required<PluginConfig>,
+    file: string,
+    action: RefreshAction,
+    logger: Logger
+): Promise<void> {
+    return runHook(
+        "refresh",
+        pluginConfig.hooks.refresh,
+        {
+            config: pluginConfig,
+            url: readHotFile(pluginConfig.hotFile)?.url ?? "",
+            file,
+            action,
+        },
+        logger
+    );
+}
+
+/**
+ * Resolve the plugin reacting to changes of the refresh paths that have an action.
+ */
+function resolveRefreshPlugins(
+    pluginConfig: Required<PluginConfig>,
+    root?: string
+): Plugin[] {
+    const rules = resolveRefreshRules(pluginConfig);
+
+    return rules.length
+        ? [
+              wpRefresh(rules, root, (file, action, logger) =>
+                  runRefreshHook(pluginConfig, file, action, logger)
+              ),
+          ]
+        : [];
+}
+
+/**
+ * Resolve the refresh paths that have an action, in the order they take effect.
+ */
+function resolveRefreshRules(
+    pluginConfig: Required<PluginConfig>
+): { paths: string[]; action: RefreshAction }[] {
+    return resolveRefreshConfig(pluginConfig).flatMap((c) =>
+        c.action ? [{ paths: c.paths, action: c.action }] : []
+    );
+}
+
+/**
+ * Normalise the refresh option into a list of refresh configurations, expanding presets into
+ * their paths. Plain paths are grouped into a single configuration, and the paths with an action
+ * come after the presets so they override them.
+ */
+function resolveRefreshConfig({
     refresh: config,
-}: Required<PluginConfig>): PluginOption[] {
+}: Required<PluginConfig>): RefreshConfig[] {
     if (typeof config === "boolean") {
         return [];
     }
 
-    if (typeof config === "string") {
-        config = [{ paths: [config] }];
-    }
-
     if (!Array.isArray(config)) {
         config = [config];
     }
 
-    if (config.some((c) => typeof c === "string")) {
-        config = [{ paths: config }] as RefreshConfig[];
-    }
-
-    return (config as RefreshConfig[]).flatMap((c) => {
-        const plugin = fullReload(c.paths, c.config);
-
-        /* eslint-disable-next-line @typescript-eslint/ban-ts-comment */
-        /** @ts-ignore */
-        plugin.__wordpress_plugin_config = c;
+    const paths = config.filter(
+        (c): c is string => typeof c === "string" && !isRefreshPreset(c)
+    );
 
-        return plugin;
-    });
+    return [
+        ...(paths.length ? [{ paths }] : []),
+        ...config.flatMap((c) => (isRefreshPreset(c) ? refreshPresets[c] : [])),
+        ...config.filter((c): c is RefreshConfig => typeof c !== "string"),
+    ];
 }
 
 /**
@@ -618,17 +1597,54 @@ function noExternalInertiaHelpers(
 }
 
 /**
- * Resolve the server config from the environment.
+ * Resolve the server config from the environment, with the certificate set in the environment
+ * or else the one found for the host of APP_URL.
  */
-function resolveEnvironmentServerConfig(env: Record<string, string>):
+function resolveEnvironmentServerConfig(
+    env: Record<string, string>,
+    https: boolean | "auto",
+    root: string
+):
     | {
           hmr?: { host: string };
           host?: string;
           https?: { cert: Buffer; key: Buffer };
+          certificate?: Certificate;
       }
     | undefined {
     if (!env.VITE_DEV_SERVER_KEY && !env.VITE_DEV_SERVER_CERT) {
-        return;
+        const secure =
+            https === "auto" ? /^https:/i.test(env.APP_URL ?? "") : https;
+
+        if (!secure) {
+            return;
+        }
+
+        const host = resolveHostFromEnv(env);
+
+        if (!host) {
+            throw Error(
+                `Unable to determine the host from the environment's APP_URL: [${env.APP_URL}].`
+            );
+        }
+
+        // The site's port is not the dev server's, so only the host name is kept
+        const hostname = new URL(env.APP_URL).hostname;
+        // The doctor loads the config without generating a certificate
+        const certificate =
+            https === true && process.env.WORDPRESS_DOCTOR !== "1"
+                ? resolveCertificate(hostname, root)
+                : discoverCertificate(hostname, root);
+
+        if (!certificate) {
+            return;
+        }
+
+        return {
+            hmr: { host: hostname },
+            https: readCertificate(certificate),
+            certificate,
+        };
     }
 
     if (
@@ -648,13 +1664,17 @@ function resolveEnvironmentServerConfig(env: Record<string, string>):
         );
     }
 
+    const certificate: Certificate = {
+        source: "environment",
+        key: env.VITE_DEV_SERVER_KEY,
+        cert: env.VITE_DEV_SERVER_CERT,
+    };
+
     return {
         hmr: { host },
         host,
-        https: {
-            key: readFileSync(env.VITE_DEV_SERVER_KEY),
-            cert: readFileSync(env.VITE_DEV_SERVER_CERT),
-        },
+        https: readCertificate(certificate),
+        certificate,
     };
 }
 
@@ -0,0 +1,98 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Plugin } from "vite";
+import { ManifestApi } from "./manifest.js";
+
+export type IntegrityAlgorithm = "sha256" | "sha384" | "sha512";
+
+interface ManifestChunk {
+    file: string;
+    css?: string[];
+    integrity?: string;
+    version?: string;
+    cssIntegrity?: Record<string, string>;
+    cssVersion?: Record<string, string>;
+}
+
+/**
+ * The Subresource Integrity hash of a file's contents, e.g. "sha384-...".
+ */
+export function integrityHash(
+    source: string | Uint8Array,
+    algorithm: IntegrityAlgorithm
+): string {
+    return `${algorithm}-${createHash(algorithm).update(source).digest("base64")}`;
+}
+
+/**
+ * The version of a file's contents, for the `ver` argument of the Wordpress enqueue functions.
+ */
+export function contentVersion(source: string | Uint8Array): string {
+    return createHash("md5").update(source).digest("hex").slice(0, 20);
+}
+
+/**
+ * Add the content version, and the integrity hash unless disabled, of every script and stylesheet
+ * to the manifest: as `version` and `integrity` for the file of each entry and chunk, and keyed by
+ * file in `cssVersion` and `cssIntegrity` for the CSS they import.
+ */
+export default function (
+    algorithm: IntegrityAlgorithm | false
+): Plugin<ManifestApi> {
+    return {
+        name: "wordpress:integrity",
+        api: {
+            manifest(manifest, { outDir }) {
+                const chunks = manifest as Record<string, ManifestChunk>;
+
+                const hashes = new Map<
+                    string,
+                    { version: string; integrity?: string }
+                >();
+                const hash = (file: string) => {
+                    if (!hashes.has(file) && existsSync(join(outDir, file))) {
+                        const source = readFileSync(join(outDir, file));
+                        hashes.set(file, {
+                            version: contentVersion(source),
+                            integrity: algorithm
+                                ? integrityHash(source, algorithm)
+                                : undefined,
+                        });
+                    }
+
+                    return hashes.get(file);
+                };
+
+                Object.values(chunks).forEach((chunk) => {
+                    const file = /\.(m?js|css)$/.test(chunk.file)
+                        ? hash(chunk.file)
+                        : undefined;
+                    if (file) {
+                        chunk.version = file.version;
+                        chunk.integrity = file.integrity;
+                    }
+
+                    const css = (chunk.css ?? []).flatMap((path) => {
+                        const hashed = hash(path);
+                        return hashed ? [[path, hashed] as const] : [];
+                    });
+                    if (css.length) {
+                        chunk.cssVersion = Object.fromEntries(
+                            css.map(([path, hashed]) => [path, hashed.version])
+                        );
+                        chunk.cssIntegrity = algorithm
+                            ? Object.fromEntries(
+                                  css.flatMap(([path, hashed]) =>
+                                      hashed.integrity
+                                          ? [[path, hashed.integrity]]
+                                          : []
+                                  )
+                              )
+                            : undefined;
+                    }
+                });
+            },
+        },
+    };
+}
@@ -0,0 +1,262 @@
+import { relative, resolve } from "node:path";
+import {
+    build,
+    loadConfigFromFile,
+    normalizePath,
+    Plugin,
+    PluginOption,
+    ResolvedConfig,
+    Rollup,
+} from "vite";
+import wpAssetFiles from "./assetFiles.js";
+import { EntryFormat } from "./entries.js";
+import { I18nApi } from "./i18n.js";
+import { IntegrityAlgorithm } from "./integrity.js";
+import { isClientBuild, ManifestApi } from "./manifest.js";
+import wpGlobals, {
+    GlobalsConfig,
+    scriptModuleExternals,
+} from "./wpGlobals.js";
+
+export interface IsolatedEntry {
+    name: string;
+    path: string;
+    format: EntryFormat;
+
+    /**
+     * The externals the entry loads from Wordpress's window globals
+     */
+    globals: GlobalsConfig;
+}
+
+export interface IsolatedEntriesConfig {
+    entries: IsolatedEntry[];
+
+    /**
+     * Whether to emit an `[name].asset.php` file for each entry
+     */
+    assetFiles: boolean;
+
+    /**
+     * The algorithm of the integrity hash in the asset files
+     */
+    integrity: IntegrityAlgorithm | false;
+}
+
+export interface IsolatedChunk {
+    file: string;
+    name: string;
+    src: string;
+    isEntry: true;
+    format: EntryFormat;
+    css?: string[];
+}
+
+export interface IsolatedEntriesApi {
+    /**
+     * The build output of an isolated entry, by its path relative to the root
+     */
+    isolatedChunk(src: string): IsolatedChunk | undefined;
+}
+
+/**
+ * The plugins of a plugin option, which may nest them in arrays and promises.
+ */
+async function flattenPlugins(option: PluginOption): Promise<Plugin[]> {
+    const resolved = await option;
+    if (!resolved) {
+        return [];
+    }
+
+    return Array.isArray(resolved)
+        ? (await Promise.all(resolved.map(flattenPlugins))).flat()
+        : [resolved as Plugin];
+}
+
+/**
+ * Whether a plugin belongs to this package, which the nested builds configure themselves.
+ */
+function isWordpressPlugin(plugin: Plugin): boolean {
+    return (
+        plugin.name === "wordpress" ||
+        plugin.name.startsWith("wordpress:") ||
+        plugin.name === "rollup-plugin-external-globals"
+    );
+}
+
+/**
+ * New instances of the project's own plugins, loaded from its config file. The instances of the
+ * main build keep their state, such as the config they resolved, until the main build has finished.
+ */
+async function projectPlugins(config: ResolvedConfig): Promise<Plugin[]> {
+    if (!config.configFile) {
+        return [];
+    }
+
+    const loaded = await loadConfigFromFile(
+        { command: "build", mode: config.mode, isSsrBuild: false },
+        config.configFile,
+        config.root,
+        "silent"
+    );
+
+    return (await flattenPlugins(loaded?.config.plugins ?? [])).filter(
+        (plugin) => !isWordpressPlugin(plugin)
+    );
+}
+
+/**
+ * Build entries that cannot share the main build as self-contained bundles: IIFE bundles that load as
+ * classic scripts, for code that has to run synchronously or around `wp_add_inline_script()` and
+ * `wp_localize_script()` output, and entries with their own set of Wordpress externals.
+ *
+ * Each entry gets its own build using the project's plugins and its externals, with its dynamic
+ * imports inlined and its CSS extracted, and its strings added to the project's translations.
+ * The entries are added to the manifest with their `format` so the PHP loader enqueues IIFE bundles
+ * without `type="module"`. The dev server still serves them as ES modules from the shared module
+ * graph.
+ */
+export default function (
+    config: IsolatedEntriesConfig
+): Plugin<ManifestApi & IsolatedEntriesApi> {
+    let resolvedConfig: ResolvedConfig;
+    const chunks: Record<string, IsolatedChunk> = {};
+
+    return {
+        name: "wordpress:isolated-entries",
+        apply: isClientBuild,
+        configResolved(config) {
+            resolvedConfig = config;
+        },
+        async generateBundle() {
+            if (!config.entries.length) {
+                return;
+            }
+
+            if (
+                !resolvedConfig.configFile &&
+                (
+                    await flattenPlugins(resolvedConfig.inlineConfig.plugins)
+                ).some((plugin) => !isWordpressPlugin(plugin))
+            ) {
+                this.warn(
+                    "Isolated entries are built without the project's plugins when it has no config file"
+                );
+            }
+
+            const assetsDir = resolvedConfig.build.assetsDir;
+            const i18n = resolvedConfig.plugins.find(
+                (plugin) => plugin.name === "wordpress:i18n"
+            )?.api as I18nApi | undefined;
+
+            // Rolldown drops the code splitting of IIFE bundles itself, names the option for module
+            // bundles codeSplitting, and replaces the preload helper's import.meta with {}
+            const rolldown = !!this.meta.rolldownVersion;
+
+            for (const { name, path, format, globals } of config.entries) {
+                const plugins: PluginOption[] = [
+                    ...(await projectPlugins(resolvedConfig)),
+                    scriptModuleExternals(globals),
+                    ...(config.assetFiles ? [wpAssetFiles(globals, config.integrity)] : []),
+                    wpGlobals(globals),
+                    ...(i18n ? [i18n.nestedBuild()] : []),
+                ];
+                const result = (await build({
+                    configFile: false,
+                    root: resolvedConfig.root,
+                    mode: resolvedConfig.mode,
+                    base: resolvedConfig.base,
+                    define: resolvedConfig.define,
+                    resolve: { alias: resolvedConfig.resolve.alias },
+                    publicDir: false,
+                    logLevel: "warn",
+                    plugins,
+                    build: {
+                        write: false,
+                        manifest: false,
+                        emptyOutDir: false,
+                        copyPublicDir: false,
+                        sourcemap: resolvedConfig.build.sourcemap,
+                        minify: resolvedConfig.build.minify,
+                        assetsInlineLimit: 0,
+                        // A single chunk has nothing to preload, and its CSS goes into one file
+                        modulePreload: false,
+                        cssCodeSplit: false,
+                        rollupOptions: {
+                            input: {
+                                [name]: resolve(resolvedConfig.root, path),
+                            },
+                            ...(rolldown
+                                ? { checks: { emptyImportMeta: false } }
+                                : {}),
+                            output: {
+                                format,
+                                ...(!rolldown
+                                    ? { inlineDynamicImports: true }
+                                    : format === "iife"
+                                      ? {}
+                                      : { codeSplitting: false }),
+                                entryFileNames: `${assetsDir}/[name]-[hash].js`,
+                                assetFileNames: (asset) =>
+                                    `${assetsDir}/${
+                                        (asset.names?.[0] ?? "").endsWith(
+                                            ".css"
+                                        )
+                                            ? name
+                                            : "[name]"
+                                    }-[hash][extname]`,
+                            },
+                        },
+                    },
+                })) as Rollup.RollupOutput | Rollup.RollupOutput[];
+
+                const files = (
+                    Array.isArray(result) ? result : [result]
+                ).flatMap((output) => output.output);
+
+                files.forEach((file) =>
+                    this.emitFile({
+                        type: "asset",
+                        fileName: file.fileName,
+                        source: file.type === "chunk" ? file.code : file.source,
+                    })
+                );
+
+                const chunk = files.find(
+                    (file): file is Rollup.OutputChunk =>
+                        file.type === "chunk" && file.isEntry
+                );
+                if (!chunk) {
+                    continue;
+                }
+
+                const src = normalizePath(
+                    relative(
+                        resolvedConfig.root,
+                        resolve(resolvedConfig.root, path)
+                    )
+                );
+                const css = files
+                    .filter((file) => file.fileName.endsWith(".css"))
+                    .map((file) => file.fileName);
+
+                chunks[src] = {
+                    file: chunk.fileName,
+                    name,
+                    src,
+                    isEntry: true,
+                    format,
+                    ...(css.length ? { css } : {}),
+                };
+            }
+        },
+        api: {
+            manifest(manifest) {
+                return { ...manifest, ...chunks };
+            },
+            isolatedChunk(src) {
+                return chunks[src];
+            },
+        },
+    };
+}
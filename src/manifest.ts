@@ -0,0 +1,107 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { ConfigEnv, Manifest, Plugin, ResolvedConfig, UserConfig } from "vite";
+
+export interface ManifestFile {
+    /**
+     * The absolute path of the manifest
+     */
+    manifestPath: string;
+    outDir: string;
+}
+
+export interface ManifestApi {
+    /**
+     * Read or change the manifest before it is written, returning a manifest to replace it
+     */
+    manifest(
+        manifest: Manifest,
+        file: ManifestFile
+    ): Manifest | void | Promise<Manifest | void>;
+}
+
+/**
+ * Whether a plugin applies: to client builds only, where the manifest is written.
+ */
+export function isClientBuild(
+    _config: UserConfig,
+    { command, isSsrBuild }: ConfigEnv
+): boolean {
+    return command === "build" && !isSsrBuild;
+}
+
+/**
+ * Where the build writes its manifest, unless it writes none.
+ */
+export function resolveManifestFile(
+    config: ResolvedConfig
+): ManifestFile | undefined {
+    const manifest = config.build.manifest;
+    if (!manifest) {
+        return;
+    }
+
+    const outDir = resolve(config.root, config.build.outDir);
+
+    return {
+        manifestPath: join(
+            outDir,
+            typeof manifest === "string" ? manifest : ".vite/manifest.json"
+        ),
+        outDir,
+    };
+}
+
+/**
+ * Hand the manifest to every plugin with a manifest api, in the order of the plugins, and write it
+ * once they have all finished with it.
+ */
+export default function (): Plugin {
+    let resolvedConfig: ResolvedConfig;
+    const chunkNames = new Map<string, string>();
+
+    return {
+        name: "wordpress:manifest",
+        apply: isClientBuild,
+        configResolved(config) {
+            resolvedConfig = config;
+        },
+        generateBundle(_options, bundle) {
+            Object.values(bundle).forEach((chunk) => {
+                if (chunk.type === "chunk") {
+                    chunkNames.set(chunk.fileName, chunk.name);
+                }
+            });
+        },
+        writeBundle: {
+            sequential: true,
+            async handler() {
+                const file = resolveManifestFile(resolvedConfig);
+                if (!file || !existsSync(file.manifestPath)) {
+                    return;
+                }
+
+                let manifest: Manifest = JSON.parse(
+                    readFileSync(file.manifestPath, "utf-8")
+                );
+                // Vite before 5 leaves the names of the chunks out
+                Object.values(manifest).forEach((chunk) => {
+                    chunk.name ??= chunkNames.get(chunk.file);
+                });
+
+                for (const plugin of resolvedConfig.plugins) {
+                    const api = plugin.api as Partial<ManifestApi> | undefined;
+                    if (typeof api?.manifest === "function") {
+                        manifest =
+                            (await api.manifest(manifest, file)) ?? manifest;
+                    }
+                }
+
+                writeFileSync(
+                    file.manifestPath,
+                    JSON.stringify(manifest, null, 2)
+                );
+            },
+        },
+    };
+}
@@ -0,0 +1,652 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join, relative, resolve } from "node:path";
+import { Plugin, ResolvedConfig, normalizePath } from "vite";
+import { healthPath } from "./hotFile.js";
+import { ManifestApi } from "./manifest.js";
+import { reactRefreshHook } from "./reactRefresh.js";
+import { statusPath } from "./status.js";
+import { defaultSsrPort } from "./ssrServer.js";
+
+interface LoaderConfig {
+    /**
+     * The name of the Wordpress plugin or theme
+     */
+    namespace: string;
+
+    /**
+     * The path to the "hot" file
+     */
+    hotFile: string;
+
+    /**
+     * The build directory the loader is written to while serving
+     */
+    outDir: string;
+
+    /**
+     * The text domain of the JSON translations in the build directory
+     */
+    textDomain?: string;
+}
+
+/**
+ * Convert a JSON value into a PHP literal.
+ */
+export function phpValue(value: unknown, indent = ""): string {
+    if (value === null || typeof value === "undefined") {
+        return "null";
+    }
+
+    if (typeof value === "string") {
+        return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+    }
+
+    if (typeof value !== "object") {
+        return String(value);
+    }
+
+    const inner = `${indent}    `;
+    const items = Array.isArray(value)
+        ? value.map((item) => `${inner}${phpValue(item, inner)},`)
+        : Object.entries(value).map(
+              ([key, item]) =>
+                  `${inner}${phpValue(key)} => ${phpValue(item, inner)},`
+          );
+
+    return items.length ? `[\n${items.join("\n")}\n${indent}]` : "[]";
+}
+
+/**
+ * Convert the plugin namespace into a valid PHP namespace, e.g. "my-plugin" becomes "MyPlugin\Vite".
+ */
+export function phpNamespace(namespace: string): string {
+    const studly = namespace
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(Boolean)
+        .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+        .join("");
+
+    return `${/^[0-9]/.test(studly) ? "_" : ""}${studly}\\Vite`;
+}
+
+/**
+ * Render the PHP loader that enqueues entries from the dev server or the build manifest.
+ */
+function renderLoader(
+    namespace: string,
+    hotFile: string,
+    textDomain?: string
+): string {
+    return `<?php
+/**
+ * Generated by wordpress-vite-plugin. Do not edit, this file is rewritten on every build and dev server start.
+ */
+
+namespace ${phpNamespace(namespace)};
+
+const HANDLE_PREFIX = ${phpValue(namespace)};
+const HOT_FILE = __DIR__ . ${phpValue(`/${hotFile}`)};
+const HEALTH_PATH = ${phpValue(healthPath)};
+const STATUS_PATH = ${phpValue(statusPath)};
+const SSR_URL = ${phpValue(`http://127.0.0.1:${defaultSsrPort}`)};
+const TEXT_DOMAIN = ${phpValue(textDomain ?? "")};
+const REACT_REFRESH_HOOK = ${phpValue(reactRefreshHook)};
+
+/**
+ * The contents of the hot file, accepting the legacy plain URL format.
+ */
+function hot_file(): ?array
+{
+    if (!is_file(HOT_FILE)) {
+        return null;
+    }
+
+    $contents = trim(file_get_contents(HOT_FILE));
+
+    if (str_starts_with($contents, '{')) {
+        $data = json_decode($contents, true);
+
+        return is_array($data) && !empty($data['url']) ? $data : null;
+    }
+
+    return $contents !== '' ? ['url' => $contents] : null;
+}
+
+/**
+ * Whether the hot file was left behind by a dev server that is no longer running. The process id is
+ * only checked on the host that wrote the file, and the health check can be disabled with the
+ * "wordpress_vite_health_check" filter when the dev server is not reachable from PHP (e.g. inside Docker).
+ */
+function is_stale(array $hot): bool
+{
+    if (
+        !empty($hot['pid']) &&
+        ($hot['host'] ?? null) === gethostname() &&
+        function_exists('posix_kill') &&
+        !posix_kill((int) $hot['pid'], 0) &&
+        posix_get_last_error() !== 1
+    ) {
+        return true;
+    }
+
+    if (!apply_filters('wordpress_vite_health_check', true, HANDLE_PREFIX)) {
+        return false;
+    }
+
+    $key = HANDLE_PREFIX . '_vite_health_' . md5($hot['url'] . ($hot['startedAt'] ?? ''));
+    $healthy = get_transient($key);
+
+    if ($healthy === false) {
+        $response = wp_remote_get(rtrim($hot['url'], '/') . HEALTH_PATH, ['timeout' => 1, 'sslverify' => false]);
+        $healthy = wp_remote_retrieve_response_code($response) === 200 ? 'yes' : 'no';
+        set_transient($key, $healthy, 10);
+    }
+
+    return $healthy !== 'yes';
+}
+
+/**
+ * The URL of the running dev server, or null when serving the build.
+ */
+function dev_server_url(): ?string
+{
+    static $url = false;
+
+    if ($url === false) {
+        $hot = hot_file();
+        $url = $hot !== null && !is_stale($hot) ? rtrim($hot['url'], '/') : null;
+    }
+
+    return $url;
+}
+
+/**
+ * The dev server URL of an entry, including the path prefix of a shared dev server.
+ */
+function dev_server_entry_url(string $entry): string
+{
+    $base = trim(hot_file()['base'] ?? '', '/');
+
+    return dev_server_url() . '/' . ($base !== '' ? $base . '/' : '') . ltrim($entry, '/');
+}
+
+/**
+ * The status the running dev server reports, or null when serving the build or it is unreachable.
+ */
+function dev_server_status(): ?array
+{
+    if (!is_hot()) {
+        return null;
+    }
+
+    $response = wp_remote_get(dev_server_url() . STATUS_PATH, ['timeout' => 1, 'sslverify' => false]);
+    $status = json_decode(wp_remote_retrieve_body($response), true);
+
+    return is_array($status) ? $status : null;
+}
+
+function is_hot(): bool
+{
+    return dev_server_url() !== null;
+}
+
+/**
+ * The build manifest, keyed by the source path of each entry.
+ */
+function manifest(): array
+{
+    static $manifest = null;
+
+    if ($manifest === null) {
+        $manifest = is_file(__DIR__ . '/manifest.php') ? require __DIR__ . '/manifest.php' : [];
+    }
+
+    return $manifest;
+}
+
+/**
+ * Convert a path inside the Wordpress installation to its public URL.
+ */
+function asset_url(string $file): string
+{
+    $path = wp_normalize_path(__DIR__ . '/' . $file);
+    $content = wp_normalize_path(WP_CONTENT_DIR);
+
+    if (str_starts_with($path, $content)) {
+        return content_url(substr($path, strlen($content)));
+    }
+
+    return site_url(substr($path, strlen(wp_normalize_path(ABSPATH))));
+}
+
+/**
+ * The entries of the input option with their context, handle and dependencies, keyed by source path.
+ */
+function entries(): array
+{
+    if (is_hot()) {
+        return hot_file()['entries'] ?? [];
+    }
+
+    return array_filter(manifest(), fn (array $chunk): bool => !empty($chunk['isEntry']));
+}
+
+function handle(string $entry): string
+{
+    if (!empty(entries()[$entry]['handle'])) {
+        return entries()[$entry]['handle'];
+    }
+
+    [$path, $query] = array_pad(explode('?', $entry, 2), 2, '');
+    $name = str_replace('/', '-', preg_replace('/\\.[^.\\/]+$/', '', $path)) . ($query !== '' ? '-' . $query : '');
+
+    return HANDLE_PREFIX . '-' . sanitize_title($name);
+}
+
+/**
+ * Mark a script handle to be printed as an ES module.
+ */
+function as_module(string $handle): void
+{
+    static $modules = [];
+
+    if (empty($modules)) {
+        add_filter('script_loader_tag', function ($tag, $tag_handle) use (&$modules) {
+            if (!in_array($tag_handle, $modules, true) || str_contains($tag, 'type="module"')) {
+                return $tag;
+            }
+
+            return str_replace('<script ', '<script type="module" ', $tag);
+        }, 10, 2);
+    }
+
+    $modules[] = $handle;
+}
+
+/**
+ * Add integrity and crossorigin attributes to the tags printed for a script, script module or style handle.
+ */
+function integrity(string $handle, ?string $hash): void
+{
+    static $hashes = [];
+
+    if ($hash === null) {
+        return;
+    }
+
+    if (empty($hashes)) {
+        $add = function ($tag, $tag_handle) use (&$hashes) {
+            if (!isset($hashes[$tag_handle]) || str_contains($tag, ' integrity=')) {
+                return $tag;
+            }
+
+            // Only the tag loading the file, not the inline scripts printed around it
+            return preg_replace(
+                '/<(script|link)\\s(?=[^>]*\\s(src|href)=)/',
+                sprintf('<$1 integrity="%s" crossorigin="anonymous" ', esc_attr($hashes[$tag_handle])),
+                $tag,
+                1
+            );
+        };
+        add_filter('script_loader_tag', $add, 10, 2);
+        add_filter('style_loader_tag', $add, 10, 2);
+
+        add_filter('wp_script_attributes', function (array $attributes) use (&$hashes): array {
+            $handle = preg_replace('/-js-module$/', '', $attributes['id'] ?? '');
+            if (($attributes['type'] ?? '') === 'module' && isset($hashes[$handle])) {
+                $attributes['integrity'] = $hashes[$handle];
+                $attributes['crossorigin'] = 'anonymous';
+            }
+
+            return $attributes;
+        });
+    }
+
+    $hashes[$handle] = $hash;
+}
+
+/**
+ * Print a modulepreload link for each URL, with its integrity hash if any, in the document head, or the footer
+ * if the head has already been printed.
+ */
+function preload(array $urls): void
+{
+    static $printed = [];
+
+    $urls = array_diff_key($urls, $printed);
+    $printed = array_merge($printed, $urls);
+    $print = function () use ($urls) {
+        foreach ($urls as $url => $hash) {
+            printf(
+                '<link rel="modulepreload" href="%s"%s />' . "\\n",
+                esc_url($url),
+                $hash !== null ? sprintf(' integrity="%s" crossorigin="anonymous"', esc_attr($hash)) : ''
+            );
+        }
+    };
+
+    if (did_action('wp_head') || did_action('admin_head')) {
+        add_action(is_admin() ? 'admin_footer' : 'wp_footer', $print, 1);
+    } else {
+        add_action(is_admin() ? 'admin_head' : 'wp_head', $print, 1);
+    }
+}
+
+/**
+ * Enqueue the Vite client so the dev server can push HMR updates.
+ */
+function enqueue_client(): void
+{
+    $handle = HANDLE_PREFIX . '-vite-client';
+
+    if (wp_script_is($handle, 'enqueued')) {
+        return;
+    }
+
+    wp_enqueue_script($handle, dev_server_url() . '/@vite/client', [], null, false);
+    as_module($handle);
+
+    // React Fast Refresh needs its hook in place before Wordpress loads React, and SCRIPT_DEBUG enabled
+    $hot = hot_file();
+    if (!empty($hot['reactRefreshPreamble'])) {
+        wp_add_inline_script('react', REACT_REFRESH_HOOK, 'before');
+        wp_enqueue_script($handle . '-react-refresh', $hot['reactRefreshPreamble'], ['react'], null, false);
+        as_module($handle . '-react-refresh');
+    }
+
+    if (!empty($hot['refreshClient'])) {
+        wp_enqueue_script($handle . '-refresh', $hot['refreshClient'], [], null, false);
+        as_module($handle . '-refresh');
+    }
+
+    // Styles injected into the editor page have to be mirrored into the iframed canvas
+    if (!empty($hot['editorCanvasClient']) && is_admin()) {
+        wp_enqueue_script($handle . '-editor-canvas', $hot['editorCanvasClient'], [], null, false);
+        as_module($handle . '-editor-canvas');
+    }
+}
+
+/**
+ * Collect the chunks statically imported by a manifest chunk, depth first.
+ */
+function imported_chunks(string $key, array &$seen = []): array
+{
+    $chunks = [];
+
+    foreach (manifest()[$key]['imports'] ?? [] as $import) {
+        if (isset($seen[$import])) {
+            continue;
+        }
+
+        $seen[$import] = true;
+        $chunks = array_merge($chunks, [$import => manifest()[$import]], imported_chunks($import, $seen));
+    }
+
+    return $chunks;
+}
+
+/**
+ * Enqueue an entry point by its source path, e.g. enqueue( 'resources/js/app.js' ).
+ * Entries built with the "iife" format are enqueued as classic scripts.
+ *
+ * @return string|null The script or style handle, or null if the entry is not in the manifest.
+ */
+function enqueue(string $entry, array $deps = [], bool $in_footer = true): ?string
+{
+    $handle = handle($entry);
+    $deps = array_values(array_unique(array_merge(entries()[$entry]['deps'] ?? [], $deps)));
+
+    if (is_hot()) {
+        // The dev server serves the Wordpress packages as shims reading their window globals
+        $deps = array_values(array_unique(array_merge(hot_file()['dependencies'][$entry] ?? [], $deps)));
+        enqueue_client();
+        wp_enqueue_script($handle, dev_server_entry_url($entry), $deps, null, $in_footer);
+        as_module($handle);
+
+        return $handle;
+    }
+
+    $chunk = manifest()[$entry] ?? null;
+    if ($chunk === null) {
+        return null;
+    }
+
+    // Shared chunks, and their stylesheets, are registered under their own handles so entries share them
+    $styles = array_fill_keys($chunk['css'] ?? [], $handle);
+    $css_versions = $chunk['cssVersion'] ?? [];
+    $css_integrity = $chunk['cssIntegrity'] ?? [];
+    $shared = [];
+    $preload = [];
+    foreach (imported_chunks($entry) as $imported) {
+        foreach ($imported['css'] ?? [] as $file) {
+            $styles[$file] = $styles[$file] ?? $imported['handle'] ?? $handle;
+        }
+        $css_versions = array_merge($css_versions, $imported['cssVersion'] ?? []);
+        $css_integrity = array_merge($css_integrity, $imported['cssIntegrity'] ?? []);
+
+        if (!empty($imported['handle'])) {
+            $shared[$imported['handle']] = $imported;
+        } else {
+            $preload[asset_url($imported['file'])] = $imported['integrity'] ?? null;
+        }
+    }
+
+    $indexes = [];
+    foreach ($styles as $file => $owner) {
+        $index = $indexes[$owner] = ($indexes[$owner] ?? -1) + 1;
+        $style = $owner . ($index ? "-{$index}" : '');
+        wp_enqueue_style($style, asset_url($file), [], $css_versions[$file] ?? null);
+        integrity($style, $css_integrity[$file] ?? null);
+    }
+
+    if (str_ends_with($chunk['file'], '.css')) {
+        wp_enqueue_style($handle, asset_url($chunk['file']), [], $chunk['version'] ?? null);
+        integrity($handle, $chunk['integrity'] ?? null);
+
+        return $handle;
+    }
+
+    $asset_file = __DIR__ . '/' . ($chunk['name'] ?? '') . '.asset.php';
+    $asset = is_file($asset_file) ? require $asset_file : [];
+    $classic = ($chunk['format'] ?? 'es') === 'iife';
+
+    if (!$classic && !empty($asset['module_dependencies']) && function_exists('wp_enqueue_script_module')) {
+        foreach (array_unique(array_merge($asset['dependencies'] ?? [], $deps)) as $dependency) {
+            wp_enqueue_script($dependency);
+        }
+        // Without a version, so the URL matches the one the entry imports and the chunk runs once
+        foreach ($shared as $shared_handle => $imported) {
+            wp_register_script_module($shared_handle, asset_url($imported['file']), [], null);
+            integrity($shared_handle, $imported['integrity'] ?? null);
+        }
+        wp_enqueue_script_module(
+            $handle,
+            asset_url($chunk['file']),
+            array_merge(
+                $asset['module_dependencies'],
+                array_map(fn (string $id): array => ['id' => $id, 'import' => 'static'], array_keys($shared))
+            ),
+            $chunk['version'] ?? $asset['version'] ?? null
+        );
+        integrity($handle, $chunk['integrity'] ?? null);
+
+        return $handle;
+    }
+
+    foreach ($shared as $shared_handle => $imported) {
+        if (!wp_script_is($shared_handle, 'registered')) {
+            wp_register_script($shared_handle, asset_url($imported['file']), [], null, $in_footer);
+            as_module($shared_handle);
+            integrity($shared_handle, $imported['integrity'] ?? null);
+        }
+    }
+
+    wp_enqueue_script(
+        $handle,
+        asset_url($chunk['file']),
+        array_values(array_unique(array_merge($asset['dependencies'] ?? [], $deps, array_keys($shared)))),
+        $chunk['version'] ?? $asset['version'] ?? null,
+        $in_footer
+    );
+    integrity($handle, $chunk['integrity'] ?? null);
+    if (!$classic) {
+        as_module($handle);
+    }
+
+    if (TEXT_DOMAIN !== '' && is_dir(__DIR__ . '/languages')) {
+        wp_set_script_translations($handle, TEXT_DOMAIN, __DIR__ . '/languages');
+    }
+
+    if (!empty($preload)) {
+        preload($preload);
+    }
+
+    return $handle;
+}
+
+/**
+ * Enqueue the entries given a context in the input option on the screens of that context.
+ */
+foreach ([
+    'frontend' => 'wp_enqueue_scripts',
+    'admin' => 'admin_enqueue_scripts',
+    'editor' => 'enqueue_block_editor_assets',
+    'login' => 'login_enqueue_scripts',
+] as $context => $hook) {
+    add_action($hook, function () use ($context) {
+        foreach (entries() as $entry => $settings) {
+            if (in_array($context, $settings['context'] ?? [], true)) {
+                enqueue($entry);
+            }
+        }
+    });
+}
+
+/**
+ * Render a page with the SSR render server started by "wordpress-vite ssr". The page, e.g. an Inertia
+ * page object with "component", "props", "url" and "version", is posted as JSON to /render, which
+ * responds with ['head' => string[], 'body' => string]. Returns null when the server is not running or
+ * rendering fails, so the page can fall back to rendering in the browser. The server URL can be changed
+ * with the "wordpress_vite_ssr_url" filter.
+ */
+function render(array $page): ?array
+{
+    $url = apply_filters('wordpress_vite_ssr_url', SSR_URL, HANDLE_PREFIX);
+
+    $response = wp_remote_post(rtrim($url, '/') . '/render', [
+        'headers' => ['Content-Type' => 'application/json'],
+        'body' => wp_json_encode($page),
+        'timeout' => 5,
+    ]);
+
+    if (is_wp_error($response) || wp_remote_retrieve_response_code($response) !== 200) {
+        return null;
+    }
+
+    $result = json_decode(wp_remote_retrieve_body($response), true);
+
+    return is_array($result) && isset($result['body']) ? $result : null;
+}
+
+/**
+ * The URL of the editor variant of a CSS entry, for passing to add_editor_style().
+ * Enqueue the entry as "{$entry}?editor" instead to get HMR while the dev server is running.
+ */
+function editor_style(string $entry): ?string
+{
+    if (is_hot()) {
+        return dev_server_entry_url($entry . '?editor&direct');
+    }
+
+    $file = manifest()[$entry]['editor'] ?? null;
+
+    return $file !== null ? asset_url($file) : null;
+}
+
+/**
+ * While the dev server is running, swap the dev server URLs written into block.json files for registered handles.
+ */
+add_filter('block_type_metadata', function (array $metadata): array {
+    if (!is_hot()) {
+        return $metadata;
+    }
+
+    $styles = ['editorStyle', 'style', 'viewStyle'];
+
+    foreach (['editorScript', 'script', 'viewScript', 'editorStyle', 'style', 'viewStyle'] as $field) {
+        if (!isset($metadata[$field])) {
+            continue;
+        }
+
+        $metadata[$field] = array_map(function ($value) use ($field, $styles) {
+            if (!is_string($value) || !str_starts_with($value, dev_server_url() . '/')) {
+                return $value;
+            }
+
+            $handle = HANDLE_PREFIX . '-' . md5($value);
+            if (in_array($field, $styles, true)) {
+                wp_register_style($handle, $value . '?direct', [], null);
+            } else {
+                wp_register_script($handle, $value, [], null, true);
+                as_module($handle);
+                enqueue_client();
+            }
+
+            return $handle;
+        }, (array) $metadata[$field]);
+    }
+
+    return $metadata;
+});
+`;
+}
+
+/**
+ * Write a namespaced PHP loader, and a PHP copy of the build manifest, into the build directory.
+ */
+export default function (config: LoaderConfig): Plugin<ManifestApi> {
+    let resolvedConfig: ResolvedConfig;
+
+    const outDir = () =>
+        resolvedConfig.command === "build"
+            ? resolve(resolvedConfig.root, resolvedConfig.build.outDir)
+            : resolve(config.outDir);
+
+    const writeLoader = () => {
+        mkdirSync(outDir(), { recursive: true });
+        writeFileSync(
+            join(outDir(), "loader.php"),
+            renderLoader(
+                config.namespace,
+                normalizePath(relative(outDir(), resolve(config.hotFile))),
+                config.textDomain
+            )
+        );
+    };
+
+    return {
+        name: "wordpress:php-loader",
+        configResolved(config) {
+            resolvedConfig = config;
+        },
+        configureServer() {
+            writeLoader();
+        },
+        writeBundle() {
+            const manifest = resolvedConfig.build.manifest;
+            if (resolvedConfig.build.ssr || manifest === false) {
+                return;
+            }
+
+            writeLoader();
+        },
+        api: {
+            manifest(manifest) {
+                writeFileSync(
+                    join(outDir(), "manifest.php"),
+                    `<?php\n\nreturn ${phpValue(manifest)};\n`
+                );
+            },
+        },
+    };
+}
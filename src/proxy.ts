@@ -0,0 +1,213 @@
+import { existsSync } from "node:fs";
+import {
+    IncomingMessage,
+    OutgoingHttpHeaders,
+    ServerResponse,
+    request as httpRequest,
+} from "node:http";
+import { request as httpsRequest } from "node:https";
+import { join } from "node:path";
+import { loadEnv, Plugin, ViteDevServer } from "vite";
+
+export interface ProxyConfig {
+    /**
+     * The URL of the Wordpress site, defaulting to `APP_URL`
+     */
+    target?: string;
+}
+
+/**
+ * Escape a string for use in a regular expression.
+ */
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replace absolute URLs of the site, including JSON escaped ones, with the dev server origin.
+ */
+function rewriteUrls(content: string, target: URL, origin: string): string {
+    const host = escapeRegExp(target.host);
+
+    return content
+        .replace(new RegExp(`(?:https?:)?//${host}`, "g"), origin)
+        .replace(
+            new RegExp(`(?:https?:)?\\\\/\\\\/${host}`, "g"),
+            origin.replace(/\//g, "\\/")
+        );
+}
+
+/**
+ * Rewrite a `Set-Cookie` header so the browser stores the cookie for the dev server.
+ */
+function rewriteCookie(cookie: string, secure: boolean): string {
+    let rewritten = cookie.replace(/;\s*domain=[^;]*/gi, "");
+
+    if (!secure) {
+        rewritten = rewritten
+            .replace(/;\s*secure(?=;|$)/gi, "")
+            .replace(/;\s*samesite=none/gi, "; SameSite=Lax");
+    }
+
+    return rewritten;
+}
+
+/**
+ * Add the Vite client to a page's head unless it is already enqueued. The PHP loader enqueues the
+ * entries a page loads, as it does without the proxy.
+ */
+function injectClient(html: string, client: string): string {
+    return html.includes(client) || !html.includes("</head>")
+        ? html
+        : html.replace(
+              "</head>",
+              `<script type="module" src="${client}"></script></head>`
+          );
+}
+
+/**
+ * Whether the request is for something the dev server serves itself.
+ */
+function isViteRequest(url: string, server: ViteDevServer): boolean {
+    let path: string;
+    try {
+        path = decodeURIComponent(url.split("?")[0]);
+    } catch {
+        path = url.split("?")[0];
+    }
+
+    return (
+        path.startsWith("/@") ||
+        path.startsWith("/__") ||
+        path.startsWith("/node_modules/") ||
+        (path !== "/" && existsSync(join(server.config.root, path)))
+    );
+}
+
+/**
+ * Forward a request to the Wordpress site, rewriting the response for the dev server origin.
+ */
+function forward(
+    req: IncomingMessage,
+    res: ServerResponse,
+    target: URL,
+    server: ViteDevServer
+): void {
+    const secure = Boolean(server.config.server.https);
+    const origin = `${secure ? "https" : "http"}://${req.headers.host}`;
+    const toTarget = (value: string) =>
+        value.replace(origin, target.origin);
+
+    const headers: OutgoingHttpHeaders = {
+        ...req.headers,
+        host: target.host,
+        "accept-encoding": "identity",
+        "x-forwarded-host": req.headers.host,
+        "x-forwarded-proto": secure ? "https" : "http",
+    };
+    if (typeof req.headers.origin === "string") {
+        headers.origin = toTarget(req.headers.origin);
+    }
+    if (typeof req.headers.referer === "string") {
+        headers.referer = toTarget(req.headers.referer);
+    }
+
+    const proxyReq = (
+        target.protocol === "https:" ? httpsRequest : httpRequest
+    )(
+        new URL(req.url ?? "/", target),
+        { method: req.method, headers, rejectUnauthorized: false },
+        (proxyRes) => {
+            const responseHeaders = { ...proxyRes.headers };
+            if (responseHeaders.location) {
+                responseHeaders.location = rewriteUrls(
+                    responseHeaders.location,
+                    target,
+                    origin
+                );
+            }
+            if (responseHeaders["set-cookie"]) {
+                responseHeaders["set-cookie"] = responseHeaders[
+                    "set-cookie"
+                ].map((cookie) => rewriteCookie(cookie, secure));
+            }
+
+            const contentType = responseHeaders["content-type"] ?? "";
+            const isHtml = contentType.includes("text/html");
+            if (!isHtml && !contentType.includes("json")) {
+                res.writeHead(proxyRes.statusCode ?? 502, responseHeaders);
+                proxyRes.pipe(res);
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            proxyRes.on("data", (chunk: Buffer) => chunks.push(chunk));
+            proxyRes.on("end", () => {
+                let body = rewriteUrls(
+                    Buffer.concat(chunks).toString(),
+                    target,
+                    origin
+                );
+                if (isHtml) {
+                    body = injectClient(
+                        body,
+                        `${server.config.base}@vite/client`
+                    );
+                }
+
+                delete responseHeaders["content-length"];
+                delete responseHeaders["content-encoding"];
+                delete responseHeaders["transfer-encoding"];
+                res.writeHead(proxyRes.statusCode ?? 502, {
+                    ...responseHeaders,
+                    "content-length": Buffer.byteLength(body),
+                });
+                res.end(body);
+            });
+        }
+    );
+
+    proxyReq.on("error", (e) => {
+        server.config.logger.error(
+            `wordpress-vite-plugin: unable to proxy ${req.url} to ${target.origin}: ${e.message}`
+        );
+        res.statusCode = 502;
+        res.end();
+    });
+
+    req.pipe(proxyReq);
+}
+
+/**
+ * Forward every request the dev server does not handle itself to the Wordpress site, so
+ * the site and HMR are served from a single origin.
+ */
+export default function (config: ProxyConfig): Plugin {
+    return {
+        name: "wordpress:proxy",
+        apply: "serve",
+        configureServer(server) {
+            const target =
+                config.target ??
+                loadEnv(
+                    server.config.mode,
+                    server.config.envDir || process.cwd(),
+                    "APP_URL"
+                ).APP_URL;
+
+            if (!target) {
+                throw new Error(
+                    "wordpress-vite-plugin: proxy requires a target URL or APP_URL in the environment."
+                );
+            }
+
+            server.middlewares.use((req, res, next) => {
+                if (isViteRequest(req.url ?? "/", server)) {
+                    return next();
+                }
+
+                forward(req, res, new URL(target), server);
+            });
+        },
+    };
+}
@@ -0,0 +1,60 @@
+import { Plugin, ResolvedConfig } from "vite";
+
+/**
+ * The dev server path the React Fast Refresh preamble is served from.
+ */
+export const reactRefreshPath = "/@wordpress-vite/react-refresh";
+
+/**
+ * A minimal React DevTools hook, printed as a classic script before Wordpress loads `react`.
+ * React DOM registers its renderer on this hook when it initialises, which lets the refresh
+ * runtime loaded later by the preamble pick up the renderer Wordpress is already using.
+ */
+export const reactRefreshHook = `window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = window.__REACT_DEVTOOLS_GLOBAL_HOOK__ || (function () {
+    var id = 0;
+    return {
+        renderers: new Map(),
+        supportsFiber: true,
+        inject: function (renderer) { this.renderers.set(++id, renderer); return id; },
+        onScheduleFiberRoot: function () {},
+        onCommitFiberRoot: function () {},
+        onCommitFiberUnmount: function () {}
+    };
+})();`;
+
+/**
+ * The preamble `@vitejs/plugin-react` expects an `index.html` to provide.
+ */
+const preamble = `import RefreshRuntime from "/@react-refresh";
+RefreshRuntime.injectIntoGlobalHook(window);
+window.$RefreshReg$ = () => {};
+window.$RefreshSig$ = () => (type) => type;
+window.__vite_plugin_react_preamble_installed__ = true;
+`;
+
+/**
+ * Whether a React plugin providing Fast Refresh is active.
+ */
+export function isReactRefreshActive(config: ResolvedConfig): boolean {
+    return config.plugins.some(
+        (plugin) =>
+            plugin.name === "vite:react-refresh" ||
+            plugin.name === "vite:react-swc"
+    );
+}
+
+/**
+ * Serve the React Fast Refresh preamble as a module the Wordpress page can load.
+ */
+export default function (): Plugin {
+    return {
+        name: "wordpress:react-refresh",
+        apply: "serve",
+        configureServer(server) {
+            server.middlewares.use(reactRefreshPath, (_req, res) => {
+                res.setHeader("Content-Type", "text/javascript");
+                res.end(preamble);
+            });
+        },
+    };
+}
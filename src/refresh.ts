@@ -0,0 +1,181 @@
+import { existsSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { createFilter, Logger, Plugin } from "vite";
+
+/**
+ * How the page reacts to a watched file changing.
+ *
+ * - `full-reload` reloads every page
+ * - `editor-reload` reloads only block editor pages
+ * - `global-styles` re-fetches the global styles generated from `theme.json` without a reload
+ * - `none` ignores the change
+ */
+export type RefreshAction =
+    "full-reload" | "editor-reload" | "global-styles" | "none";
+
+export type RefreshPreset = "theme" | "plugin";
+
+export interface RefreshRule {
+    paths: string[];
+    action: RefreshAction;
+}
+
+/**
+ * The dev server path the refresh client is served from.
+ */
+export const refreshClientPath = "/@wordpress-vite/refresh";
+
+const refreshEvent = "wordpress:refresh";
+
+/**
+ * The rules of each preset. Later rules take precedence over earlier ones.
+ */
+export const refreshPresets: Record<RefreshPreset, RefreshRule[]> = {
+    theme: [
+        { paths: ["**/*.php"], action: "full-reload" },
+        {
+            paths: ["templates/**/*.html", "parts/**/*.html"],
+            action: "full-reload",
+        },
+        { paths: ["**/block.json"], action: "editor-reload" },
+        { paths: ["theme.json", "styles/**/*.json"], action: "global-styles" },
+    ],
+    plugin: [
+        { paths: ["**/*.php"], action: "full-reload" },
+        { paths: ["**/block.json"], action: "editor-reload" },
+    ],
+};
+
+/**
+ * Whether a name is one of the refresh presets.
+ */
+export function isRefreshPreset(name: unknown): name is RefreshPreset {
+    return typeof name === "string" && name in refreshPresets;
+}
+
+/**
+ * Guess the preset for a project, treating it as a theme when it has a `style.css` or `theme.json`.
+ */
+export function detectRefreshPreset(root: string): RefreshPreset {
+    return existsSync(join(root, "style.css")) ||
+        existsSync(join(root, "theme.json"))
+        ? "theme"
+        : "plugin";
+}
+
+/**
+ * The part of a glob before its first pattern segment, as the watcher does not expand globs.
+ */
+function watchedPath(glob: string): string {
+    const segments = glob.split("/");
+    const index = segments.findIndex((segment) => /[*?{}[\]!]/.test(segment));
+
+    return (index === -1 ? segments : segments.slice(0, index)).join("/");
+}
+
+/**
+ * The client reacting to refresh events on Wordpress pages.
+ */
+const client = `import { createHotContext } from "/@vite/client";
+
+const hot = createHotContext(${JSON.stringify(refreshClientPath)});
+
+const isEditor = () =>
+    document.body.classList.contains("block-editor-page") ||
+    document.body.classList.contains("site-editor-php");
+
+async function refreshGlobalStyles() {
+    const core = window.wp?.data?.dispatch("core");
+    if (isEditor() && core) {
+        core.invalidateResolutionForStoreSelector("__experimentalGetCurrentThemeBaseGlobalStyles");
+        core.invalidateResolutionForStoreSelector("__experimentalGetCurrentGlobalStylesId");
+        await window.wp.data.resolveSelect("core").__experimentalGetCurrentThemeBaseGlobalStyles();
+        return;
+    }
+
+    const html = await (await fetch(location.href, { credentials: "same-origin" })).text();
+    const fresh = new DOMParser().parseFromString(html, "text/html").getElementById("global-styles-inline-css");
+    const current = document.getElementById("global-styles-inline-css");
+    if (fresh && current) {
+        current.textContent = fresh.textContent;
+    } else {
+        location.reload();
+    }
+}
+
+hot.on(${JSON.stringify(refreshEvent)}, ({ action }) => {
+    if (action === "full-reload" || (action === "editor-reload" && isEditor())) {
+        location.reload();
+    } else if (action === "global-styles") {
+        refreshGlobalStyles().catch(() => location.reload());
+    }
+});
+`;
+
+/**
+ * Watch Wordpress files and react to their changes with the action of the last matching rule,
+ * calling `onRefresh` after notifying the pages.
+ */
+export default function (
+    rules: RefreshRule[],
+    root?: string,
+    onRefresh?: (file: string, action: RefreshAction, logger: Logger) => void
+): Plugin {
+    const matchers: [ReturnType<typeof createFilter>, RefreshAction][] = [];
+
+    return {
+        name: "wordpress:refresh",
+        apply: "serve",
+        configureServer(server) {
+            const base = resolve(root ?? server.config.root);
+
+            rules.forEach((rule) => {
+                matchers.push([
+                    createFilter(
+                        rule.paths,
+                        ["**/node_modules/**", "**/vendor/**"],
+                        {
+                            resolve: base,
+                        }
+                    ),
+                    rule.action,
+                ]);
+                server.watcher.add(
+                    rule.paths.map((path) => join(base, watchedPath(path)))
+                );
+            });
+
+            server.middlewares.use(refreshClientPath, (_req, res) => {
+                res.setHeader("Content-Type", "text/javascript");
+                res.end(client);
+            });
+
+            const onChange = (file: string) => {
+                const action = [...matchers]
+                    .reverse()
+                    .find(([matches]) => matches(file))?.[1];
+
+                if (!action || action === "none") {
+                    return;
+                }
+
+                server.config.logger.info(
+                    `${action} ${file.slice(base.length + 1)}`,
+                    { timestamp: true }
+                );
+
+                server.ws.send({
+                    type: "custom",
+                    event: refreshEvent,
+                    data: { action, file },
+                });
+
+                onRefresh?.(file, action, server.config.logger);
+            };
+
+            server.watcher.on("add", onChange);
+            server.watcher.on("change", onChange);
+            server.watcher.on("unlink", onChange);
+        },
+    };
+}
@@ -0,0 +1,184 @@
+import { existsSync, readdirSync } from "node:fs";
+import {
+    createServer,
+    IncomingMessage,
+    Server,
+    ServerResponse,
+} from "node:http";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+/**
+ * The page the PHP side asks the render server to render, e.g. an Inertia page object.
+ */
+export interface SsrPage {
+    component?: string;
+    props?: Record<string, unknown>;
+    url?: string;
+    version?: string | null;
+    [key: string]: unknown;
+}
+
+/**
+ * The rendered page: tags for the document head and the HTML of the app's root element.
+ */
+export interface SsrResult {
+    head: string[];
+    body: string;
+}
+
+/**
+ * The function an SSR bundle exports by default.
+ */
+export type SsrRender = (page: SsrPage) => SsrResult | Promise<SsrResult>;
+
+export interface SsrServerConfig {
+    /**
+     * The path of the built SSR bundle
+     */
+    bundle: string;
+
+    /**
+     * @default 13714
+     */
+    port?: number;
+
+    /**
+     * @default '127.0.0.1'
+     */
+    host?: string;
+}
+
+/**
+ * The paths the render server answers on.
+ *
+ * - `POST /render` with a JSON page object responds `200 {"head": string[], "body": string}`,
+ *   or `500 {"error": string}` when rendering throws.
+ * - `GET /health` responds `200 {"status": "OK", "pid": number}`.
+ * - `POST /shutdown` responds `200 {"status": "OK"}` and stops the server once in-flight renders finish.
+ */
+export const ssrPaths = {
+    render: "/render",
+    health: "/health",
+    shutdown: "/shutdown",
+};
+
+export const defaultSsrPort = 13714;
+
+/**
+ * Find the SSR bundle in a directory when it holds a single `.mjs` file.
+ */
+export function findSsrBundle(directory: string): string | undefined {
+    if (!existsSync(directory)) {
+        return;
+    }
+
+    const bundles = readdirSync(directory).filter((file) =>
+        file.endsWith(".mjs")
+    );
+
+    return bundles.length === 1 ? join(directory, bundles[0]) : undefined;
+}
+
+/**
+ * Send a JSON response.
+ */
+function json(res: ServerResponse, status: number, data: unknown): void {
+    const body = JSON.stringify(data);
+
+    res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Content-Length": Buffer.byteLength(body),
+    });
+    res.end(body);
+}
+
+/**
+ * Read and parse a JSON request body.
+ */
+function readJson(req: IncomingMessage): Promise<SsrPage> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("error", reject);
+        req.on("end", () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString() || "{}"));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    });
+}
+
+/**
+ * Start a local HTTP server rendering pages with the SSR bundle's default export. The server
+ * shuts down gracefully on SIGINT, SIGTERM or a request to the shutdown path.
+ */
+export async function startSsrServer(config: SsrServerConfig): Promise<Server> {
+    const bundle = resolve(config.bundle);
+    if (!existsSync(bundle)) {
+        throw new Error(
+            `wordpress-vite-plugin: SSR bundle not found at [${bundle}]. Build it with "vite build --ssr" first.`
+        );
+    }
+
+    const render = (await import(pathToFileURL(bundle).href))
+        .default as unknown;
+    if (typeof render !== "function") {
+        throw new Error(
+            `wordpress-vite-plugin: the SSR bundle [${bundle}] must export a render function by default.`
+        );
+    }
+
+    const port = config.port ?? defaultSsrPort;
+    const host = config.host ?? "127.0.0.1";
+
+    const server = createServer(async (req, res) => {
+        const path = (req.url ?? "/").split("?")[0];
+
+        if (path === ssrPaths.health) {
+            return json(res, 200, { status: "OK", pid: process.pid });
+        }
+
+        if (path === ssrPaths.shutdown && req.method === "POST") {
+            json(res, 200, { status: "OK" });
+            return shutdown();
+        }
+
+        if (path === ssrPaths.render && req.method === "POST") {
+            try {
+                const result: SsrResult = await (render as SsrRender)(
+                    await readJson(req)
+                );
+
+                return json(res, 200, {
+                    head: result?.head ?? [],
+                    body: result?.body ?? "",
+                });
+            } catch (e) {
+                console.error(e);
+                return json(res, 500, { error: (e as Error).message });
+            }
+        }
+
+        json(res, 404, { error: "Not found" });
+    });
+
+    const shutdown = () => {
+        server.close(() => process.exit(0));
+        server.closeIdleConnections?.();
+    };
+
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+
+    await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, host, () => resolve());
+    });
+
+    console.info(`SSR server listening on http://${host}:${port}`);
+
+    return server;
+}
@@ -0,0 +1,135 @@
+import { ViteDevServer } from "vite";
+import { CertificateSource, findResolvedCertificate } from "./certificates.js";
+import { HotFile } from "./hotFile.js";
+import { WordpressPaths } from "./wpEnvironment.js";
+
+/**
+ * The path the dev server reports its status on.
+ */
+export const statusPath = "/__wordpress_vite/status";
+
+export interface ProjectStatus {
+    /**
+     * The name of the Wordpress plugin or theme
+     */
+    namespace: string;
+
+    /**
+     * The path prefix the project's files are served under, when sharing a dev server
+     */
+    base?: string;
+
+    /**
+     * The entry points being served and their dev server URLs
+     */
+    inputs: { path: string; url: string }[];
+
+    /**
+     * The path of the hot file and what it currently contains
+     */
+    hotFile: { path: string; contents?: HotFile };
+
+    /**
+     * The detected Wordpress version and installation layout
+     */
+    wordpress: { version: string; layout: WordpressPaths };
+
+    /**
+     * The globs that trigger a refresh, followed by their action when they have one
+     */
+    refresh: string[];
+
+    /**
+     * Module ids mapped to the window globals they are loaded from
+     */
+    externals: Record<string, string>;
+
+    /**
+     * Module ids left as script module imports
+     */
+    scriptModules: string[];
+}
+
+export interface ServerStatus {
+    ok: true;
+    pid: number;
+
+    /**
+     * The URLs the dev server is listening on
+     */
+    urls: string[];
+
+    /**
+     * Where the HTTPS certificate came from, if one is used
+     */
+    certificate: {
+        source: CertificateSource | "server.https" | "none";
+        key?: string;
+        cert?: string;
+    };
+
+    projects: ProjectStatus[];
+}
+
+const registries = new WeakMap<
+    ViteDevServer,
+    Map<string, () => ProjectStatus>
+>();
+
+/**
+ * Describe where the dev server's certificate came from.
+ */
+function resolveCertificate(
+    server: ViteDevServer
+): ServerStatus["certificate"] {
+    const https = server.config.server.https;
+    const certificate = findResolvedCertificate(https?.cert);
+
+    if (certificate) {
+        return certificate;
+    }
+
+    return { source: https ? "server.https" : "none" };
+}
+
+/**
+ * Resolve the status of the dev server and every project it serves.
+ */
+export function resolveServerStatus(server: ViteDevServer): ServerStatus {
+    return {
+        ok: true,
+        pid: process.pid,
+        urls: [
+            ...(server.resolvedUrls?.local ?? []),
+            ...(server.resolvedUrls?.network ?? []),
+        ],
+        certificate: resolveCertificate(server),
+        projects: [...(registries.get(server)?.values() ?? [])].map((status) =>
+            status()
+        ),
+    };
+}
+
+/**
+ * Add a project to the dev server's status, serving the status endpoint on first use.
+ */
+export function registerProjectStatus(
+    server: ViteDevServer,
+    namespace: string,
+    status: () => ProjectStatus
+): void {
+    let projects = registries.get(server);
+
+    if (!projects) {
+        projects = new Map();
+        registries.set(server, projects);
+
+        server.middlewares.use(statusPath, (_req, res) => {
+            res.setHeader("Content-Type", "application/json");
+            res.setHeader("Cache-Control", "no-store");
+            res.end(JSON.stringify(resolveServerStatus(server), null, 4));
+        });
+    }
+
+    projects.set(namespace, status);
+}
@@ -0,0 +1,206 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+
+export interface WordpressPaths {
+    /**
+     * The directory containing `wp-config.php`
+     */
+    root?: string;
+
+    /**
+     * The directory containing Wordpress core, i.e. `ABSPATH`
+     */
+    coreDirectory?: string;
+
+    /**
+     * The content directory, i.e. `WP_CONTENT_DIR`
+     */
+    contentDirectory?: string;
+
+    /**
+     * The uploads directory
+     */
+    uploadsDirectory?: string;
+}
+
+export interface WordpressLayout extends WordpressPaths {
+    /**
+     * How the installation is laid out
+     */
+    type: "classic" | "bedrock" | "wp-env" | "custom" | "unknown";
+}
+
+/**
+ * The directories from the given one up to the filesystem root.
+ */
+function ancestors(directory: string): string[] {
+    const parent = dirname(directory);
+
+    return parent === directory
+        ? [directory]
+        : [directory, ...ancestors(parent)];
+}
+
+/**
+ * Read a constant defined in `wp-config.php`, supporting string literals optionally
+ * prefixed with `__DIR__ .` or `dirname( __FILE__ ) .`.
+ */
+function readConstant(configFile: string, name: string): string | undefined {
+    const contents = readFileSync(configFile, "utf-8");
+    const match = contents.match(
+        new RegExp(
+            `define\\(\\s*['"]${name}['"]\\s*,\\s*((?:__DIR__|dirname\\(\\s*__FILE__\\s*\\))\\s*\\.\\s*)?['"]([^'"]+)['"]\\s*\\)`
+        )
+    );
+
+    if (!match) {
+        return;
+    }
+
+    return match[1] ? join(dirname(configFile), match[2]) : match[2];
+}
+
+/**
+ * Find the Wordpress core wp-env has downloaded for the `.wp-env.json` in the given directory.
+ */
+function findWpEnvCore(directory: string): string | undefined {
+    const configPath = join(directory, ".wp-env.json");
+    if (existsSync(configPath) === false) {
+        return;
+    }
+
+    const home = process.env.WP_ENV_HOME ?? join(homedir(), ".wp-env");
+    const hash = createHash("md5").update(configPath).digest("hex");
+    const core = join(home, hash, "WordPress");
+
+    return existsSync(join(core, "wp-load.php")) ? core : undefined;
+}
+
+/**
+ * Whether the directory holding Wordpress core is the `web` directory of a Bedrock project: its
+ * content directory, its config or a Composer requirement on Wordpress must be there.
+ */
+function isBedrockWeb(web: string): boolean {
+    const project = dirname(web);
+    if (
+        existsSync(join(web, "app")) ||
+        existsSync(join(project, "config/application.php"))
+    ) {
+        return true;
+    }
+
+    const composerPath = join(project, "composer.json");
+    if (existsSync(composerPath) === false) {
+        return false;
+    }
+
+    try {
+        const composer = JSON.parse(readFileSync(composerPath, "utf-8"));
+
+        return "roots/wordpress" in { ...composer.require };
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Find the Wordpress installation a theme or plugin lives in by walking up from its directory.
+ * Classic installs, Bedrock (`web/wp` and `web/app`), wp-env, mu-plugins and symlinked
+ * plugins (through the logical working directory) are recognised. Explicit paths take precedence.
+ */
+export function detectWordpressLayout(
+    directory: string = process.cwd(),
+    paths: WordpressPaths = {}
+): WordpressLayout {
+    const overrides = Object.fromEntries(
+        Object.entries(paths)
+            .filter(([, path]) => typeof path === "string")
+            .map(([key, path]) => [key, resolve(directory, path)])
+    ) as WordpressPaths;
+
+    // The logical working directory keeps the path a symlinked plugin was linked to
+    const starts = [resolve(directory)];
+    if (process.env.PWD && process.env.PWD !== process.cwd()) {
+        starts.unshift(
+            join(process.env.PWD, relative(process.cwd(), resolve(directory)))
+        );
+    }
+
+    let layout: WordpressLayout = { type: "unknown" };
+
+    for (const dir of starts.flatMap(ancestors)) {
+        if (existsSync(join(dir, "wp-load.php"))) {
+            const root = existsSync(join(dir, "wp-config.php"))
+                ? dir
+                : dirname(dir);
+            layout = { type: "classic", root, coreDirectory: dir };
+            break;
+        }
+
+        const bedrockCore = ["web/wp", "wp"]
+            .map((core) => join(dir, core))
+            .find(
+                (core) =>
+                    existsSync(join(core, "wp-load.php")) &&
+                    isBedrockWeb(dirname(core))
+            );
+        if (bedrockCore) {
+            const web = dirname(bedrockCore);
+            layout = {
+                type: "bedrock",
+                root: web,
+                coreDirectory: bedrockCore,
+                contentDirectory: existsSync(join(web, "app"))
+                    ? join(web, "app")
+                    : undefined,
+            };
+            break;
+        }
+
+        const wpEnvCore = findWpEnvCore(dir);
+        if (wpEnvCore) {
+            layout = {
+                type: "wp-env",
+                root: wpEnvCore,
+                coreDirectory: wpEnvCore,
+            };
+            break;
+        }
+    }
+
+    const configFile = layout.root && join(layout.root, "wp-config.php");
+    const configured =
+        configFile && existsSync(configFile)
+            ? {
+                  content: readConstant(configFile, "WP_CONTENT_DIR"),
+                  uploads: readConstant(configFile, "UPLOADS"),
+              }
+            : {};
+
+    const coreDirectory = overrides.coreDirectory ?? layout.coreDirectory;
+    const contentDirectory =
+        overrides.contentDirectory ??
+        configured.content ??
+        layout.contentDirectory ??
+        (coreDirectory ? join(coreDirectory, "wp-content") : undefined);
+    const uploadsDirectory =
+        overrides.uploadsDirectory ??
+        (configured.uploads && coreDirectory
+            ? isAbsolute(configured.uploads)
+                ? configured.uploads
+                : join(coreDirectory, configured.uploads)
+            : undefined) ??
+        (contentDirectory ? join(contentDirectory, "uploads") : undefined);
+
+    const hasOverrides = Object.keys(overrides).length > 0;
+
+    return {
+        type: hasOverrides && layout.type === "unknown" ? "custom" : layout.type,
+        root: overrides.root ?? layout.root,
+        coreDirectory,
+        contentDirectory,
+        uploadsDirectory,
+    };
+}
@@ -1,7 +1,54 @@
+import { relative } from "node:path";
 import externalGlobals from "rollup-plugin-external-globals";
+import { Plugin } from "vite";
+import {
+    compareVersions,
+    providedScriptModules,
+    providedScripts,
+    providedSince,
+    readRequiresAtLeast,
+} from "./wpVersions.js";
 
-interface GlobalsConfig {
+export interface GlobalsConfig {
     localReact ?: boolean;
+    scriptModules ?: boolean;
+    externals ?: ExternalsConfig;
+
+    /**
+     * The oldest Wordpress version to support, limiting the externals to the packages it provides
+     */
+    requiresWp ?: string;
+}
+
+export interface ExternalModule {
+    /**
+     * The window variable the module is exposed on
+     */
+    global: string;
+
+    /**
+     * The script handle Wordpress registers the module under, used for dependency output
+     */
+    handle?: string;
+}
+
+export type ExternalsPreset = keyof typeof externalPresets;
+
+export interface ExternalsConfig {
+    /**
+     * Additional module ids mapped to a window global, or to a global and script handle
+     */
+    modules?: Record<string, string | ExternalModule>;
+
+    /**
+     * Built-in sets of externals for other ecosystems
+     */
+    presets?: ExternalsPreset[];
+
+    /**
+     * Module ids to bundle rather than load from the window
+     */
+    exclude?: string[];
 }
 
 /**
@@ -14,77 +61,309 @@ function camelCaseDash(str: string): string {
     return str.replace(/-([a-z])/g, (match, letter) => letter.toUpperCase());
 }
 
-function wp_globals(config: GlobalsConfig) {
-    const wpModules = [
-        "a11y",
-        "annotations",
-        "api-fetch",
-        "autop",
-        "blob",
-        "block-directory",
-        "block-editor",
-        "block-library",
-        "block-serialization-default-parser",
-        "blocks",
-        "components",
-        "compose",
-        "core-data",
-        "data",
-        "data-controls",
-        "date",
-        "deprecated",
-        "dom",
-        "dom-ready",
-        "edit-post",
-        "editor",
-        "element",
-        "escape-html",
-        "format-library",
-        "hooks",
-        "html-entities",
-        "i18n",
-        "is-shallow-equal",
-        "keyboard-shortcuts",
-        "keycodes",
-        "list-reusable-blocks",
-        "media-utils",
-        "notices",
-        "nux",
-        "plugins",
-        "primitives",
-        "priority-queue",
-        "redux-routine",
-        "reusable-blocks",
-        "rich-text",
-        "server-side-render",
-        "shortcode",
-        "token-list",
-        "url",
-        "viewport",
-        "warning",
-        "wordcount",
-    ];
+/**
+ * Map a list of package names to externals on a shared global namespace.
+ */
+function namespacedExternals(
+    scope: string,
+    global: string,
+    packages: Record<string, string>
+): Record<string, ExternalModule> {
+    return Object.fromEntries(
+        Object.entries(packages).map(([name, handle]) => [
+            `${scope}/${name}`,
+            { global: `${global}.${camelCaseDash(name)}`, handle },
+        ])
+    );
+}
+
+const externalPresets = {
+    woocommerce: {
+        ...namespacedExternals("@woocommerce", "wc", {
+            "blocks-checkout": "wc-blocks-checkout",
+            "blocks-components": "wc-blocks-components",
+            components: "wc-components",
+            "csv-export": "wc-csv-export",
+            currency: "wc-currency",
+            "customer-effort-score": "wc-customer-effort-score",
+            date: "wc-date",
+            experimental: "wc-experimental",
+            explat: "wc-explat",
+            navigation: "wc-navigation",
+            number: "wc-number",
+            "price-format": "wc-price-format",
+            "product-editor": "wc-product-editor",
+            tracks: "wc-tracks",
+        }),
+        "@woocommerce/block-data": {
+            global: "wc.wcBlocksData",
+            handle: "wc-blocks-data-store",
+        },
+        "@woocommerce/blocks-registry": {
+            global: "wc.wcBlocksRegistry",
+            handle: "wc-blocks-registry",
+        },
+        "@woocommerce/data": { global: "wc.data", handle: "wc-store-data" },
+        "@woocommerce/settings": {
+            global: "wc.wcSettings",
+            handle: "wc-settings",
+        },
+        "@woocommerce/shared-context": {
+            global: "wc.wcBlocksSharedContext",
+            handle: "wc-blocks-shared-context",
+        },
+        "@woocommerce/shared-hocs": {
+            global: "wc.wcBlocksSharedHocs",
+            handle: "wc-blocks-shared-hocs",
+        },
+    },
+} satisfies Record<string, Record<string, ExternalModule>>;
 
-    const otherModules: Record<string, string> = {
-        jquery: "jQuery",
-        tinymce: "tinymce",
-        moment: "moment",
-        backbone: "Backbone",
-        lodash: "lodash",
+function wp_externals(config: GlobalsConfig): Record<string, ExternalModule> {
+    const scripts = providedScripts(config.requiresWp);
+    const scriptModules = config.scriptModules
+        ? providedScriptModules(config.requiresWp)
+        : [];
+
+    const otherModules: Record<string, ExternalModule> = {
+        jquery: { global: "jQuery", handle: "jquery" },
+        tinymce: { global: "tinymce", handle: "wp-tinymce" },
+        moment: { global: "moment", handle: "moment" },
+        backbone: { global: "Backbone", handle: "backbone" },
+        lodash: { global: "lodash", handle: "lodash" },
+        react: { global: "React", handle: "react" },
+        "react-dom": { global: "ReactDOM", handle: "react-dom" },
+        "react/jsx-runtime": {
+            global: "ReactJSXRuntime",
+            handle: "react-jsx-runtime",
+        },
     };
-    if (config.localReact !== true) {
-        otherModules.react = "React";
-        otherModules["react-dom"] = "ReactDOM";
-    }
 
-    return {
-        ...otherModules,
+    const externals: Record<string, ExternalModule> = {
         ...Object.fromEntries(
-            wpModules.map((handle) => [
-                `@wordpress/${handle}`,
-                `wp.${camelCaseDash(handle)}`,
-            ])
+            Object.entries(otherModules).filter(([id]) => scripts.includes(id))
         ),
+        ...Object.fromEntries(
+            scripts
+                .filter(
+                    (id) =>
+                        id.startsWith("@wordpress/") &&
+                        !scriptModules.includes(id)
+                )
+                .map((id) => id.slice("@wordpress/".length))
+                .map((handle) => [
+                    `@wordpress/${handle}`,
+                    { global: `wp.${camelCaseDash(handle)}`, handle: `wp-${handle}` },
+                ])
+        ),
+        ...Object.assign(
+            {},
+            ...(config.externals?.presets ?? []).map(
+                (preset) => externalPresets[preset]
+            )
+        ),
+        ...Object.fromEntries(
+            Object.entries(config.externals?.modules ?? {}).map(
+                ([id, module]) => [
+                    id,
+                    typeof module === "string" ? { global: module } : module,
+                ]
+            )
+        ),
+    };
+
+    excludedExternals(config).forEach((id) => delete externals[id]);
+
+    return externals;
+}
+
+/**
+ * The default externals that should be bundled instead, with a local React being one such case.
+ */
+function excludedExternals(config: GlobalsConfig): string[] {
+    return [
+        ...(config.localReact === true
+            ? ["react", "react-dom", "react/jsx-runtime"]
+            : []),
+        ...(config.externals?.exclude ?? []),
+    ];
+}
+
+export function wp_globals(config: GlobalsConfig): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(wp_externals(config)).map(([id, module]) => [
+            id,
+            module.global,
+        ])
+    );
+}
+
+/**
+ * Map each externalised module id to the script handle Wordpress registers it under.
+ */
+export function wp_handles(config: GlobalsConfig): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(wp_externals(config)).flatMap(([id, module]) =>
+            module.handle ? [[id, module.handle]] : []
+        )
+    );
+}
+
+/**
+ * The module ids left as bare ESM specifiers for Wordpress's import map to resolve.
+ */
+export function wp_script_modules(config: GlobalsConfig): string[] {
+    const excluded = excludedExternals(config);
+    const scripts = providedScripts(config.requiresWp);
+
+    // Packages also shipped as a classic script are only loaded as modules when opted into
+    return providedScriptModules(config.requiresWp).filter(
+        (id) =>
+            (config.scriptModules || !scripts.includes(id)) &&
+            !excluded.includes(id)
+    );
+}
+
+/**
+ * The Wordpress packages that are bundled because the oldest supported Wordpress version lacks them.
+ */
+export function wp_unavailable(config: GlobalsConfig): string[] {
+    const available = [
+        ...providedScripts(config.requiresWp),
+        ...providedScriptModules(config.requiresWp),
+    ];
+
+    return [...new Set([...providedScripts(), ...providedScriptModules()])]
+        .filter((id) => !available.includes(id))
+        .filter((id) => !(id in (config.externals?.modules ?? {})));
+}
+
+/**
+ * Warn about Wordpress packages bundled because the oldest supported Wordpress version lacks them,
+ * and about imported externals the `Requires at least` header of the theme or plugin allows sites to lack.
+ */
+export function requiresWpWarnings(
+    config: GlobalsConfig = {},
+    root?: string
+): Plugin {
+    const unavailable = wp_unavailable(config);
+    const bundled = new Set<string>();
+    const externals = new Set<string>();
+    let header: { file: string; version: string } | undefined;
+    let newerExternals: string[] = [];
+    let projectRoot: string;
+
+    return {
+        name: "wordpress:requires-wp",
+        apply: (_config, { command, isSsrBuild }) =>
+            command === "build" && !isSsrBuild,
+        configResolved(resolvedConfig) {
+            projectRoot = root ?? resolvedConfig.root;
+        },
+        buildStart() {
+            const found = readRequiresAtLeast(projectRoot);
+            const outdated =
+                found &&
+                config.requiresWp &&
+                compareVersions(found.version, config.requiresWp) < 0
+                    ? found
+                    : undefined;
+
+            header = outdated;
+            newerExternals = outdated
+                ? [
+                      ...Object.keys(wp_globals(config)),
+                      ...wp_script_modules(config),
+                  ].filter(
+                      (id) =>
+                          compareVersions(
+                              providedSince(id) ?? "0",
+                              outdated.version
+                          ) > 0
+                  )
+                : [];
+            externals.clear();
+        },
+        resolveId: {
+            order: "pre",
+            handler(id) {
+                if (unavailable.includes(id) && !bundled.has(id)) {
+                    bundled.add(id);
+                    this.warn(
+                        `${id} is bundled, as Wordpress ${config.requiresWp} does not provide it (added in ${providedSince(id)}).`
+                    );
+                }
+            },
+        },
+        transform: {
+            order: "pre",
+            handler(code) {
+                // Externals are rewritten to globals before they would be resolved
+                newerExternals
+                    .filter(
+                        (id) =>
+                            code.includes(`"${id}"`) || code.includes(`'${id}'`)
+                    )
+                    .forEach((id) => externals.add(id));
+            },
+        },
+        buildEnd() {
+            if (header && externals.size) {
+                this.warn(
+                    `${relative(projectRoot, header.file)} declares "Requires at least: ${header.version}", but Wordpress ${header.version} lacks ${[...externals].join(", ")}. Set the requiresWp option to ${header.version} to bundle them.`
+                );
+            }
+        },
+    };
+}
+
+/**
+ * Mark the Wordpress script modules as external so their imports survive into the ES module output.
+ * The dev server prefixes unresolved imports with `/@id/`, which is stripped again for these ids
+ * so the browser resolves them through Wordpress's import map.
+ */
+export function scriptModuleExternals(config: GlobalsConfig = {}): Plugin {
+    const modules = wp_script_modules(config);
+    let command: "build" | "serve";
+
+    return {
+        name: "wordpress:script-modules",
+        config: (_config, env) => {
+            command = env.command;
+
+            return { optimizeDeps: { exclude: modules } };
+        },
+        resolveId: {
+            order: "pre",
+            handler(id) {
+                if (modules.includes(id)) {
+                    return { id, external: true };
+                }
+            },
+        },
+        load(id) {
+            // Satisfy the dev server's pre-transform of the import; the browser never requests it
+            if (command === "serve" && modules.includes(id)) {
+                return "export {};";
+            }
+        },
+        transform: {
+            order: "post",
+            handler(code) {
+                if (command !== "serve" || !code.includes("/@id/@wordpress/")) {
+                    return;
+                }
+
+                return modules.reduce(
+                    (transformed, id) =>
+                        transformed.replace(
+                            new RegExp(`(["'\`])/@id/${id}\\1`, "g"),
+                            `$1${id}$1`
+                        ),
+                    code
+                );
+            },
+        },
     };
 }
 
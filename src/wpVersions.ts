@@ -0,0 +1,182 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * The module ids each Wordpress release first registered as a classic script.
+ */
+const scriptReleases: Record<string, string[]> = {
+    "5.0": [
+        "@wordpress/a11y",
+        "@wordpress/annotations",
+        "@wordpress/api-fetch",
+        "@wordpress/autop",
+        "@wordpress/blob",
+        "@wordpress/block-library",
+        "@wordpress/block-serialization-default-parser",
+        "@wordpress/blocks",
+        "@wordpress/components",
+        "@wordpress/compose",
+        "@wordpress/core-data",
+        "@wordpress/data",
+        "@wordpress/date",
+        "@wordpress/deprecated",
+        "@wordpress/dom",
+        "@wordpress/dom-ready",
+        "@wordpress/edit-post",
+        "@wordpress/editor",
+        "@wordpress/element",
+        "@wordpress/escape-html",
+        "@wordpress/format-library",
+        "@wordpress/hooks",
+        "@wordpress/html-entities",
+        "@wordpress/i18n",
+        "@wordpress/is-shallow-equal",
+        "@wordpress/keycodes",
+        "@wordpress/list-reusable-blocks",
+        "@wordpress/notices",
+        "@wordpress/nux",
+        "@wordpress/plugins",
+        "@wordpress/redux-routine",
+        "@wordpress/rich-text",
+        "@wordpress/shortcode",
+        "@wordpress/token-list",
+        "@wordpress/url",
+        "@wordpress/viewport",
+        "@wordpress/wordcount",
+        "backbone",
+        "jquery",
+        "lodash",
+        "moment",
+        "react",
+        "react-dom",
+        "tinymce",
+    ],
+    "5.2": ["@wordpress/block-editor"],
+    "5.3": [
+        "@wordpress/data-controls",
+        "@wordpress/keyboard-shortcuts",
+        "@wordpress/media-utils",
+        "@wordpress/priority-queue",
+        "@wordpress/server-side-render",
+    ],
+    "5.4": ["@wordpress/primitives", "@wordpress/warning"],
+    "5.5": ["@wordpress/block-directory"],
+    "5.7": ["@wordpress/reusable-blocks"],
+    "5.8": [
+        "@wordpress/customize-widgets",
+        "@wordpress/edit-widgets",
+        "@wordpress/widgets",
+    ],
+    "5.9": ["@wordpress/edit-site", "@wordpress/interface"],
+    "6.1": ["@wordpress/preferences-persistence", "@wordpress/style-engine"],
+    "6.2": ["@wordpress/preferences"],
+    "6.3": [
+        "@wordpress/commands",
+        "@wordpress/core-commands",
+        "@wordpress/router",
+    ],
+    "6.4": ["@wordpress/patterns"],
+    "6.6": ["react/jsx-runtime"],
+    "6.8": ["@wordpress/fields"],
+};
+
+/**
+ * The module ids each Wordpress release first registered as a script module.
+ */
+const scriptModuleReleases: Record<string, string[]> = {
+    "6.5": ["@wordpress/interactivity", "@wordpress/interactivity-router"],
+    "6.7": ["@wordpress/a11y"],
+};
+
+/**
+ * Compare two Wordpress versions, ignoring pre-release suffixes so a "6.7-beta1" site counts as 6.7.
+ */
+export function compareVersions(a: string, b: string): number {
+    const parse = (version: string) =>
+        (version.match(/^\d+(\.\d+)*/)?.[0] ?? "0").split(".").map(Number);
+    const [left, right] = [parse(a), parse(b)];
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] ?? 0) - (right[i] ?? 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+
+    return 0;
+}
+
+/**
+ * The module ids of a release table provided by the Wordpress version, or by any when it is unknown.
+ */
+function provided(
+    releases: Record<string, string[]>,
+    requiresWp?: string
+): string[] {
+    return Object.entries(releases)
+        .filter(
+            ([release]) =>
+                !requiresWp || compareVersions(release, requiresWp) <= 0
+        )
+        .flatMap(([, ids]) => ids);
+}
+
+/**
+ * The module ids Wordpress provides as classic scripts from the version on.
+ */
+export function providedScripts(requiresWp?: string): string[] {
+    return provided(scriptReleases, requiresWp);
+}
+
+/**
+ * The module ids Wordpress provides as script modules from the version on.
+ */
+export function providedScriptModules(requiresWp?: string): string[] {
+    return provided(scriptModuleReleases, requiresWp);
+}
+
+/**
+ * The release a module id was first provided in, as a script or a script module.
+ */
+export function providedSince(id: string): string | undefined {
+    return [
+        ...Object.entries(scriptReleases),
+        ...Object.entries(scriptModuleReleases),
+    ]
+        .filter(([, ids]) => ids.includes(id))
+        .map(([release]) => release)
+        .sort(compareVersions)[0];
+}
+
+/**
+ * Read the `Requires at least` header of the theme's `style.css` or the plugin's main file, the
+ * same way Wordpress does from the first 8 KB of the file.
+ */
+export function readRequiresAtLeast(
+    root: string
+): { file: string; version: string } | undefined {
+    const header = (file: string, name: string) =>
+        readFileSync(file, "utf-8")
+            .slice(0, 8192)
+            .match(new RegExp(`^[ \\t/*#@]*${name}:(.*)$`, "mi"))?.[1]
+            .trim();
+
+    const candidates = [
+        ...(existsSync(join(root, "style.css"))
+            ? [{ file: join(root, "style.css"), name: "Theme Name" }]
+            : []),
+        ...(existsSync(root) ? readdirSync(root) : [])
+            .filter((file) => file.endsWith(".php"))
+            .map((file) => ({ file: join(root, file), name: "Plugin Name" })),
+    ];
+
+    for (const { file, name } of candidates) {
+        const version = header(file, name)
+            ? header(file, "Requires at least")
+            : undefined;
+
+        if (version) {
+            return { file, version };
+        }
+    }
+}
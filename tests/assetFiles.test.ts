@@ -0,0 +1,69 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { build, Manifest } from "vite";
+import { wordpress } from "../src";
+import { contentVersion, integrityHash } from "../src/integrity";
+import { createFixture } from "./fixture";
+
+const fixture = createFixture({
+    "src/app.js": [
+        'import { render } from "@wordpress/element";',
+        'import { load } from "./lib.js";',
+        "render(load(), document.body);",
+        'import("@wordpress/interactivity");',
+    ].join("\n"),
+    "src/lib.js": [
+        'import apiFetch from "@wordpress/api-fetch";',
+        'export const load = () => apiFetch({ path: "/wp/v2/posts" });',
+    ].join("\n"),
+    "src/admin.js": 'console.log("admin");',
+});
+
+const outDir = join(fixture.root, "public/build");
+const read = (path: string) => readFileSync(join(outDir, path), "utf-8");
+
+describe("wordpress:asset-files", () => {
+    const cwd = process.cwd();
+    let manifest: Manifest;
+
+    beforeAll(async () => {
+        process.chdir(fixture.root);
+        await build({
+            root: fixture.root,
+            configFile: false,
+            logLevel: "silent",
+            plugins: [
+                wordpress({
+                    namespace: "test",
+                    input: ["src/app.js", "src/admin.js"],
+                    publicDirectory: "public",
+                    scriptModules: true,
+                    phpLoader: false,
+                }),
+            ],
+        });
+        manifest = JSON.parse(read("manifest.json"));
+    });
+
+    afterAll(() => {
+        process.chdir(cwd);
+        fixture.remove();
+    });
+
+    it("lists the externals an entry and its imports depend on", () => {
+        const code = read(manifest["src/app.js"].file);
+
+        expect(read("app.asset.php")).toBe(
+            "<?php return ['dependencies' => ['wp-api-fetch', 'wp-element'], " +
+                "'module_dependencies' => [['id' => '@wordpress/interactivity', 'import' => 'dynamic']], " +
+                `'version' => '${contentVersion(code)}', 'integrity' => '${integrityHash(code, "sha384")}'];\n`
+        );
+    });
+
+    it("writes an asset file for an entry without dependencies", () => {
+        expect(read("admin.asset.php")).toMatch(
+            /^<\?php return \['dependencies' => \[\], 'version' => '\w+', 'integrity' => 'sha384-/
+        );
+    });
+});
@@ -0,0 +1,120 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { build } from "vite";
+import { discoverBlocks, resolveBlockInputs } from "../src/blocks";
+import { wordpress } from "../src";
+import { createFixture } from "./fixture";
+
+const block = (name: string, fields: Record<string, string>) =>
+    JSON.stringify({ apiVersion: 3, name: `test/${name}`, ...fields });
+
+const fixture = createFixture({
+    "src/app.js": 'console.log("app");',
+    "blocks/shared/util.js":
+        "export const label = (name) => `${name} ${Math.random()}`;",
+    "blocks/foo/block.json": block("foo", {
+        editorScript: "file:./index.js",
+        style: "file:./index.css",
+    }),
+    "blocks/foo/index.js": [
+        'import { registerBlockType } from "@wordpress/blocks";',
+        'import { label } from "../shared/util.js";',
+        'import "./editor.css";',
+        'registerBlockType("test/foo", { title: label("foo") });',
+    ].join("\n"),
+    "blocks/foo/index.css": ".foo { color: red; }",
+    "blocks/foo/editor.css": ".foo-editor { color: blue; }",
+    "blocks/bar/block.json": block("bar", {
+        editorScript: "file:./index.js",
+        viewScriptModule: "file:./view.js",
+    }),
+    "blocks/bar/index.js": [
+        'import { registerBlockType } from "@wordpress/blocks";',
+        'import { label } from "../shared/util.js";',
+        'registerBlockType("test/bar", { title: label("bar") });',
+    ].join("\n"),
+    "blocks/bar/view.js": [
+        'import { store } from "@wordpress/interactivity";',
+        'import { label } from "../shared/util.js";',
+        'store("test", { label });',
+    ].join("\n"),
+});
+
+const outDir = join(fixture.root, "public/build");
+const read = (path: string) => readFileSync(join(outDir, path), "utf-8");
+const metadata = (name: string) =>
+    JSON.parse(read(`blocks/${name}/block.json`));
+const file = (reference: string, name: string) =>
+    join(`blocks/${name}`, reference.replace(/^file:/, ""));
+
+describe("wordpress:blocks", () => {
+    const cwd = process.cwd();
+
+    beforeAll(async () => {
+        process.chdir(fixture.root);
+        await build({
+            root: fixture.root,
+            configFile: false,
+            logLevel: "silent",
+            plugins: [
+                wordpress({
+                    namespace: "test",
+                    input: "src/app.js",
+                    publicDirectory: "public",
+                    blocks: "blocks",
+                    scriptModules: true,
+                    phpLoader: false,
+                }),
+            ],
+        });
+    });
+
+    afterAll(() => {
+        process.chdir(cwd);
+        fixture.remove();
+    });
+
+    it("tells assets of a block sharing a file name apart", () => {
+        expect(
+            Object.keys(resolveBlockInputs(discoverBlocks("blocks"))).sort()
+        ).toEqual([
+            "blocks/bar/index",
+            "blocks/bar/view",
+            "blocks/foo/index-css",
+            "blocks/foo/index-js",
+        ]);
+    });
+
+    it("builds the classic block scripts self-contained", () => {
+        ["foo", "bar"].forEach((name) => {
+            const script = read(file(metadata(name).editorScript, name));
+
+            expect(script).toMatch(/^\(function/);
+            expect(script).not.toMatch(/\bimport\b/);
+            expect(script).toContain("wp.blocks.registerBlockType");
+        });
+    });
+
+    it("copies the asset file next to each block script", () => {
+        const script = file(metadata("foo").editorScript, "foo");
+
+        expect(read(script.replace(/\.js$/, ".asset.php"))).toContain(
+            "'dependencies' => ['wp-blocks']"
+        );
+    });
+
+    it("loads the styles imported by a block script", () => {
+        const foo = metadata("foo");
+
+        expect(foo.style).toMatch(/^file:.*index-css-.*\.css$/);
+        expect(foo.editorStyle).toHaveLength(1);
+        expect(read(file(foo.editorStyle[0], "foo"))).toContain(".foo-editor");
+    });
+
+    it("keeps script modules as modules", () => {
+        const view = read(file(metadata("bar").viewScriptModule, "bar"));
+
+        expect(view).toMatch(/from\s*"@wordpress\/interactivity"/);
+    });
+});
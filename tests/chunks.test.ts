@@ -0,0 +1,94 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { build, Manifest } from "vite";
+import { ChunksConfig } from "../src/chunks";
+import { wordpress } from "../src";
+import { createFixture } from "./fixture";
+
+const fixture = createFixture({
+    "node_modules/colors/package.json": JSON.stringify({
+        name: "colors",
+        type: "module",
+        main: "index.js",
+    }),
+    "node_modules/colors/index.js":
+        "export const color = (name) => `${name}-${Math.random()}`;",
+    "src/shared.js": "export const label = (name) => name.toUpperCase();",
+    "src/admin.js": [
+        'import { color } from "colors";',
+        'import { label } from "./shared.js";',
+        'console.log(color("admin"), label("admin"));',
+    ].join("\n"),
+    "src/front.js": [
+        'import { color } from "colors";',
+        'import { label } from "./shared.js";',
+        'console.log(color("front"), label("front"));',
+    ].join("\n"),
+});
+
+const buildManifest = async (
+    chunks: ChunksConfig["strategy"] | ChunksConfig
+): Promise<Manifest> => {
+    await build({
+        root: fixture.root,
+        configFile: false,
+        logLevel: "silent",
+        plugins: [
+            wordpress({
+                namespace: "test",
+                input: {
+                    admin: { path: "src/admin.js", context: "admin" },
+                    front: { path: "src/front.js", context: "frontend" },
+                },
+                publicDirectory: "public",
+                chunks,
+                phpLoader: false,
+            }),
+        ],
+    });
+
+    return JSON.parse(
+        readFileSync(join(fixture.root, "public/build/manifest.json"), "utf-8")
+    );
+};
+
+const chunkHandles = (manifest: Manifest) =>
+    Object.values(manifest)
+        .filter((chunk) => !chunk.isEntry)
+        .flatMap((chunk) => (chunk as { handle?: string }).handle ?? [])
+        .sort();
+
+describe("wordpress:chunks", () => {
+    const cwd = process.cwd();
+
+    beforeAll(() => process.chdir(fixture.root));
+
+    afterAll(() => {
+        process.chdir(cwd);
+        fixture.remove();
+    });
+
+    it("gives the vendor chunk a script handle", async () => {
+        expect(chunkHandles(await buildManifest("vendor"))).toEqual([
+            "test-chunk-vendor",
+        ]);
+    });
+
+    it("gives the chunk of shared modules a script handle", async () => {
+        expect(chunkHandles(await buildManifest("shared"))).toEqual([
+            "test-chunk-shared",
+        ]);
+    });
+
+    it("groups the dependencies by the contexts of their entries", async () => {
+        const manifest = await buildManifest("context");
+
+        expect(chunkHandles(manifest)).toContain(
+            "test-chunk-vendor-admin-frontend"
+        );
+        expect(manifest["src/admin.js"].imports).toEqual(
+            manifest["src/front.js"].imports
+        );
+    });
+});
@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer, ViteDevServer } from "vite";
+import wpDevGlobals from "../src/devGlobals";
+import { createFixture } from "./fixture";
+
+const files: Record<string, string> = {
+    "src/app.js": [
+        'import * as React from "react";',
+        'import { useSelect } from "@wordpress/data";',
+        'export * from "@wordpress/data";',
+        'export * as hooks from "@wordpress/hooks";',
+        "export const state = React.useState(useSelect);",
+    ].join("\n"),
+    "node_modules/@wordpress/data/package.json": JSON.stringify({
+        name: "@wordpress/data",
+        module: "build-module/index.js",
+    }),
+    "node_modules/@wordpress/data/build-module/index.js": [
+        'export { default as createRegistry, select } from "./registry.js";',
+        'export * from "./store.js";',
+        "export const useSelect = () => {};",
+        "export default {};",
+    ].join("\n"),
+    "node_modules/@wordpress/data/build-module/registry.js":
+        "export default function () {}\nexport const select = () => {};",
+    "node_modules/@wordpress/data/build-module/store.js":
+        "export function createReduxStore() {}",
+};
+
+describe("wordpress:dev-globals", () => {
+    const fixture = createFixture(files);
+    let server: ViteDevServer;
+
+    const shim = async (id: string) => {
+        const loaded = await server.pluginContainer.load(
+            `\0wordpress-global:${id}`
+        );
+
+        return typeof loaded === "string" ? loaded : (loaded?.code ?? "");
+    };
+
+    beforeAll(async () => {
+        server = await createServer({
+            root: fixture.root,
+            configFile: false,
+            logLevel: "silent",
+            appType: "custom",
+            server: { middlewareMode: true, hmr: false, ws: false },
+            optimizeDeps: { noDiscovery: true, include: [] },
+            plugins: [wpDevGlobals()],
+        });
+        await server.transformRequest("/src/app.js");
+    });
+
+    afterAll(async () => {
+        await server.close();
+        fixture.remove();
+    });
+
+    it("imports namespaces as the whole window global", async () => {
+        const code = (await server.transformRequest("/src/app.js"))?.code;
+
+        expect(code).toMatch(/import \{ default as React \} from/);
+        expect(code).toMatch(/export \{ default as hooks \} from/);
+        expect(await shim("react")).toContain("const module = window.React;");
+    });
+
+    it("exports the imported names", async () => {
+        expect(await shim("@wordpress/data")).toContain(
+            'const __wp_0 = module["useSelect"];\nexport { __wp_0 as useSelect };'
+        );
+    });
+
+    it("exports the names of the package re-exported with export *", async () => {
+        const code = await shim("@wordpress/data");
+
+        ["createRegistry", "select", "createReduxStore"].forEach((name) =>
+            expect(code).toContain(`as ${name} }`)
+        );
+        expect(code.match(/export default/g)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { Plugin } from "vite";
+import wpEditorStyles, { editorEntry } from "../src/editorStyles";
+
+const plugin = wpEditorStyles({
+    entries: ["src/app.css"],
+    selector: ".editor-styles-wrapper",
+});
+
+const transform = (css: string, id = editorEntry("/project/src/app.css")) =>
+    (
+        (plugin.transform as Extract<Plugin["transform"], Function>).call(
+            {} as never,
+            css,
+            id
+        ) as { code: string } | undefined
+    )?.code;
+
+describe("wordpress:editor-styles", () => {
+    it("scopes every selector under the editor wrapper", () => {
+        expect(transform(".button, a:hover { color: red; }")).toBe(
+            ".editor-styles-wrapper .button, .editor-styles-wrapper a:hover { color: red; }"
+        );
+    });
+
+    it("puts the document's selectors on the editor wrapper", () => {
+        expect(
+            transform(
+                ":root { --gap: 1rem; } html.dark body p { color: white; } body { margin: 0; }"
+            )
+        ).toBe(
+            ".editor-styles-wrapper { --gap: 1rem; } .editor-styles-wrapper.dark p { color: white; } .editor-styles-wrapper { margin: 0; }"
+        );
+    });
+
+    it("scopes the rules of conditional at-rules only", () => {
+        expect(
+            transform(
+                "@media (min-width: 600px) { .grid { display: grid; } } " +
+                    "@keyframes fade { from { opacity: 0; } } " +
+                    '@font-face { font-family: "Inter"; src: url("a{b}.woff2"); }'
+            )
+        ).toBe(
+            "@media (min-width: 600px) { .editor-styles-wrapper .grid { display: grid; } } " +
+                "@keyframes fade { from { opacity: 0; } } " +
+                '@font-face { font-family: "Inter"; src: url("a{b}.woff2"); }'
+        );
+    });
+
+    it("leaves rules already scoped, comments and strings alone", () => {
+        expect(
+            transform(
+                '/* a { } */ .editor-styles-wrapper .title { content: "}"; }'
+            )
+        ).toBe('/* a { } */ .editor-styles-wrapper .title { content: "}"; }');
+    });
+
+    it("leaves the stylesheet itself alone", () => {
+        expect(transform(".button {}", "/project/src/app.css")).toBeUndefined();
+    });
+
+    it("records the editor variant against its entry in the manifest", () => {
+        const manifest = {
+            "src/app.css": { file: "assets/app.css", isEntry: true },
+            "src/app.css?editor": {
+                file: "assets/app-editor.css",
+                isEntry: true,
+            },
+        };
+        plugin.api?.manifest(manifest, { manifestPath: "", outDir: "" });
+
+        expect(manifest["src/app.css"]).toEqual({
+            file: "assets/app.css",
+            isEntry: true,
+            editor: "assets/app-editor.css",
+        });
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { Plugin, UserConfig } from "vite";
+import {
+    resolveEntries,
+    resolveEntrySettings,
+    uniqueNames,
+} from "../src/entries";
+import { wordpress } from "../src";
+
+const buildInput = (config: Parameters<typeof wordpress>[0]) => {
+    const [plugin] = wordpress(config);
+    const hook = plugin.config as Extract<Plugin["config"], Function>;
+    const resolved = hook.call(
+        {} as never,
+        {},
+        {
+            command: "build",
+            mode: "production",
+        }
+    ) as UserConfig;
+
+    return resolved.build?.rollupOptions?.input;
+};
+
+describe("uniqueNames", () => {
+    it("names entries after their file", () => {
+        expect(uniqueNames(["resources/js/app.js", "./src/admin.ts"])).toEqual([
+            "app",
+            "admin",
+        ]);
+    });
+
+    it("falls back to the path when files share a name", () => {
+        expect(
+            uniqueNames([
+                "resources/js/app.js",
+                "resources/css/app.css",
+                "resources/js/admin.js",
+            ])
+        ).toEqual(["resources/js/app", "resources/css/app", "admin"]);
+    });
+
+    it("falls back to the extension when paths share a name", () => {
+        expect(uniqueNames(["src/app.js", "src/app.css"])).toEqual([
+            "src/app-js",
+            "src/app-css",
+        ]);
+    });
+
+    it("avoids the names already taken", () => {
+        expect(uniqueNames(["src/app.css"], ["app-editor"], "-editor")).toEqual(
+            ["src/app-editor"]
+        );
+    });
+});
+
+describe("resolveEntries", () => {
+    it("keeps every entry of the input", () => {
+        expect(
+            resolveEntries(["resources/js/app.js", "resources/css/app.css"])
+        ).toEqual({
+            "resources/js/app": { path: "resources/js/app.js" },
+            "resources/css/app": { path: "resources/css/app.css" },
+        });
+    });
+
+    it("keeps the names of named entries", () => {
+        expect(
+            resolveEntries({
+                app: "resources/js/app.js",
+                admin: { path: "resources/js/admin.js", context: "admin" },
+            })
+        ).toEqual({
+            app: { path: "resources/js/app.js" },
+            admin: { path: "resources/js/admin.js", context: "admin" },
+        });
+    });
+
+    it("builds every entry of the input", () => {
+        expect(
+            buildInput({
+                namespace: "test",
+                input: ["resources/js/app.js", "resources/css/app.css"],
+                editorStyles: "resources/css/editor.css",
+            })
+        ).toMatchObject({
+            "resources/js/app": "resources/js/app.js",
+            "resources/css/app": "resources/css/app.css",
+        });
+    });
+
+    it("builds the editor variant of every editor style", () => {
+        expect(
+            buildInput({
+                namespace: "test",
+                input: {
+                    "app-editor": "src/editor.js",
+                    app: "src/app.css",
+                    admin: "admin/app.css",
+                },
+                editorStyles: ["src/app.css", "admin/app.css"],
+            })
+        ).toEqual({
+            "app-editor": "src/editor.js",
+            app: "src/app.css",
+            admin: "admin/app.css",
+            "src/app-editor": "src/app.css?editor",
+            "admin/app-editor": "admin/app.css?editor",
+        });
+    });
+});
+
+describe("resolveEntrySettings", () => {
+    it("records the settings against each entry sharing a file name", () => {
+        expect(
+            resolveEntrySettings(
+                [
+                    "resources/js/app.js",
+                    "resources/css/app.css",
+                    "resources/js/admin.js",
+                ],
+                "/project",
+                {
+                    localReact: false,
+                    formats: { "./resources/js/app.js": "iife" },
+                }
+            )
+        ).toEqual({
+            "resources/js/app.js": { localReact: false, format: "iife" },
+            "resources/css/app.css": { localReact: false, format: "es" },
+            "resources/js/admin.js": { localReact: false, format: "es" },
+        });
+    });
+
+    it("prefers the settings of the entry", () => {
+        expect(
+            resolveEntrySettings(
+                {
+                    app: {
+                        path: "src/app.js",
+                        context: "admin",
+                        localReact: true,
+                        format: "iife",
+                    },
+                },
+                "/project",
+                { localReact: false, formats: { "src/app.js": "es" } }
+            )
+        ).toEqual({
+            "src/app.js": {
+                context: ["admin"],
+                localReact: true,
+                format: "iife",
+            },
+        });
+    });
+
+    it("keys the entries of a project by their path in the project", () => {
+        expect(
+            resolveEntrySettings(
+                { app: { path: "web/src/app.js", context: "frontend" } },
+                "/project",
+                { projectRoot: "/project/web" }
+            )
+        ).toEqual({ "src/app.js": { context: ["frontend"] } });
+    });
+});
@@ -0,0 +1,23 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+/**
+ * Write the files into a new temporary directory, returning its path and a function removing it.
+ */
+export function createFixture(files: Record<string, string>): {
+    root: string;
+    remove: () => void;
+} {
+    const root = mkdtempSync(join(tmpdir(), "wordpress-vite-plugin-"));
+
+    Object.entries(files).forEach(([path, content]) => {
+        mkdirSync(dirname(join(root, path)), { recursive: true });
+        writeFileSync(join(root, path), content);
+    });
+
+    return {
+        root,
+        remove: () => rmSync(root, { recursive: true, force: true }),
+    };
+}
@@ -0,0 +1,87 @@
+import { spawnSync } from "node:child_process";
+import { writeFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+    healthPath,
+    isHotFileStale,
+    readHotFile,
+    writeHotFile,
+} from "../src/hotFile";
+import { createFixture } from "./fixture";
+
+const fixture = createFixture({});
+const hotPath = join(fixture.root, "hot");
+
+afterAll(() => fixture.remove());
+
+describe("readHotFile", () => {
+    it("reads the JSON hot file", () => {
+        writeHotFile(hotPath, { url: "http://localhost:5173" });
+
+        expect(readHotFile(hotPath)).toMatchObject({
+            url: "http://localhost:5173",
+            pid: process.pid,
+        });
+    });
+
+    it("reads the legacy hot file holding just the URL", () => {
+        writeFileSync(hotPath, "http://localhost:5173\n");
+
+        expect(readHotFile(hotPath)).toEqual({ url: "http://localhost:5173" });
+    });
+
+    it("ignores a hot file it cannot read", () => {
+        writeFileSync(hotPath, '{"url": ');
+
+        expect(readHotFile(hotPath)).toBeUndefined();
+    });
+});
+
+describe("isHotFileStale", () => {
+    const server = createServer((req, res) => {
+        res.statusCode = req.url === healthPath ? 200 : 404;
+        res.end();
+    });
+    let url: string;
+
+    beforeAll(async () => {
+        await new Promise<void>((resolve) =>
+            server.listen(0, "127.0.0.1", resolve)
+        );
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+    it("keeps the hot file of a dev server answering its health checks", async () => {
+        writeHotFile(hotPath, { url });
+
+        expect(await isHotFileStale(hotPath)).toBe(false);
+    });
+
+    it("finds the hot file of an exited dev server stale", async () => {
+        const { pid } = spawnSync(process.execPath, ["-e", ""]);
+        writeFileSync(
+            hotPath,
+            JSON.stringify({ ...writeHotFile(hotPath, { url }), pid })
+        );
+
+        expect(await isHotFileStale(hotPath)).toBe(true);
+    });
+
+    it("finds the hot file of a dev server not answering stale", async () => {
+        writeFileSync(
+            hotPath,
+            JSON.stringify({ url: "http://127.0.0.1:9", host: "elsewhere" })
+        );
+
+        expect(await isHotFileStale(hotPath, 200)).toBe(true);
+    });
+
+    it("finds a missing hot file stale", async () => {
+        expect(await isHotFileStale(join(fixture.root, "missing"))).toBe(true);
+    });
+});
@@ -0,0 +1,109 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { build, Manifest } from "vite";
+import { wordpress } from "../src";
+import { createFixture } from "./fixture";
+
+const fixture = createFixture({
+    "src/app.js": [
+        'import { __, _n, _x } from "@wordpress/i18n";',
+        'import { greet } from "./greet.js";',
+        'console.log(__("Hello", "test"), _x("Post", "noun", "test"));',
+        'console.log(_n("%d apple", "%d apples", 2, "test"), greet("Ann"));',
+        'console.log(__("Elsewhere", "other"));',
+    ].join("\n"),
+    "src/greet.js": [
+        'import { __, sprintf } from "@wordpress/i18n";',
+        "export const greet = (name) =>",
+        "    // translators: %s: the name of the user",
+        '    sprintf(__("Hi %s", "test"), name);',
+    ].join("\n"),
+    "languages/test-de_DE.po": [
+        'msgid ""',
+        'msgstr ""',
+        '"Language: de_DE\\n"',
+        '"Plural-Forms: nplurals=2; plural=(n != 1);\\n"',
+        "",
+        'msgid "Hello"',
+        'msgstr "Hallo"',
+        "",
+        'msgctxt "noun"',
+        'msgid "Post"',
+        'msgstr "Beitrag"',
+        "",
+        'msgid "%d apple"',
+        'msgid_plural "%d apples"',
+        'msgstr[0] "%d Apfel"',
+        'msgstr[1] "%d Äpfel"',
+        "",
+        "#, fuzzy",
+        'msgid "Hi %s"',
+        'msgstr "Hallo %s"',
+    ].join("\n"),
+});
+
+const read = (path: string) => readFileSync(join(fixture.root, path), "utf-8");
+
+describe("wordpress:i18n", () => {
+    const cwd = process.cwd();
+    let manifest: Manifest;
+
+    beforeAll(async () => {
+        process.chdir(fixture.root);
+        await build({
+            root: fixture.root,
+            configFile: false,
+            logLevel: "silent",
+            plugins: [
+                wordpress({
+                    namespace: "test",
+                    input: "src/app.js",
+                    publicDirectory: "public",
+                    i18n: true,
+                    phpLoader: false,
+                }),
+            ],
+        });
+        manifest = JSON.parse(read("public/build/manifest.json"));
+    });
+
+    afterAll(() => {
+        process.chdir(cwd);
+        fixture.remove();
+    });
+
+    it("writes the strings of the text domain to the POT file", () => {
+        const pot = read("languages/test.pot");
+
+        expect(pot).toContain('"X-Domain: test\\n"');
+        expect(pot).not.toContain("Elsewhere");
+        expect(pot.split("\n\n").slice(1)).toEqual([
+            '#: src/app.js:3\nmsgid "Hello"\nmsgstr ""',
+            '#: src/app.js:3\nmsgctxt "noun"\nmsgid "Post"\nmsgstr ""',
+            '#: src/app.js:4\nmsgid "%d apple"\nmsgid_plural "%d apples"\nmsgstr[0] ""\nmsgstr[1] ""',
+            '#. translators: %s: the name of the user\n#: src/greet.js:4\nmsgid "Hi %s"\nmsgstr ""\n',
+        ]);
+    });
+
+    it("writes the translations of an entry's strings for each PO file", () => {
+        const source = `public/build/${manifest["src/app.js"].file}`;
+        const hash = createHash("md5").update(source).digest("hex");
+        const json = JSON.parse(
+            read(`public/build/languages/test-de_DE-${hash}.json`)
+        );
+
+        expect(json).toMatchObject({ source, domain: "messages" });
+        expect(json.locale_data.messages).toEqual({
+            "": {
+                domain: "messages",
+                lang: "de_DE",
+                "plural-forms": "nplurals=2; plural=(n != 1);",
+            },
+            Hello: ["Hallo"],
+            "noun\u0004Post": ["Beitrag"],
+            "%d apple": ["%d Apfel", "%d Äpfel"],
+        });
+    });
+});
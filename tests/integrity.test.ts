@@ -0,0 +1,67 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { build, Manifest } from "vite";
+import { wordpress } from "../src";
+import { contentVersion, integrityHash } from "../src/integrity";
+import { createFixture } from "./fixture";
+
+const fixture = createFixture({
+    "src/app.js": 'import "./app.css";\nconsole.log("app");',
+    "src/app.css": "body { color: red; }",
+});
+
+const outDir = join(fixture.root, "public/build");
+const read = (path: string) => readFileSync(join(outDir, path));
+
+const buildManifest = async (
+    integrity: "sha256" | "sha384" | "sha512" | false
+): Promise<Manifest> => {
+    await build({
+        root: fixture.root,
+        configFile: false,
+        logLevel: "silent",
+        plugins: [
+            wordpress({
+                namespace: "test",
+                input: "src/app.js",
+                publicDirectory: "public",
+                integrity,
+                phpLoader: false,
+            }),
+        ],
+    });
+
+    return JSON.parse(read("manifest.json").toString());
+};
+
+describe("wordpress:integrity", () => {
+    const cwd = process.cwd();
+
+    beforeAll(() => process.chdir(fixture.root));
+
+    afterAll(() => {
+        process.chdir(cwd);
+        fixture.remove();
+    });
+
+    it("records the version and integrity hash of every file", async () => {
+        const app = (await buildManifest("sha512"))["src/app.js"];
+        const [css] = app.css ?? [];
+
+        expect(app).toMatchObject({
+            version: contentVersion(read(app.file)),
+            integrity: integrityHash(read(app.file), "sha512"),
+            cssVersion: { [css]: contentVersion(read(css)) },
+            cssIntegrity: { [css]: integrityHash(read(css), "sha512") },
+        });
+    });
+
+    it("records only the versions without integrity hashes", async () => {
+        const app = (await buildManifest(false))["src/app.js"];
+
+        expect(app).toHaveProperty("version", contentVersion(read(app.file)));
+        expect(app).not.toHaveProperty("integrity");
+        expect(app).not.toHaveProperty("cssIntegrity");
+    });
+});
@@ -0,0 +1,88 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { build, Manifest } from "vite";
+import { wordpress } from "../src";
+import { createFixture } from "./fixture";
+
+const fixture = createFixture({
+    // Records the config it resolved, and replaces a marker in the code it transforms
+    "vite.config.js": `
+        import { writeFileSync } from "node:fs";
+
+        export default {
+            plugins: [
+                (() => {
+                    let write;
+
+                    return {
+                        name: "project",
+                        configResolved(config) {
+                            write = config.build.write;
+                        },
+                        transform(code) {
+                            return code.replace("__MARKER__", "transformed");
+                        },
+                        writeBundle() {
+                            writeFileSync("write.txt", String(write));
+                        },
+                    };
+                })(),
+            ],
+        };
+    `,
+    "src/app.js": 'console.log("app");',
+    "src/legacy.js": 'window.legacy = "__MARKER__";',
+});
+
+const outDir = join(fixture.root, "public/build");
+const read = (path: string) => readFileSync(join(outDir, path), "utf-8");
+
+describe("wordpress:isolated-entries", () => {
+    const cwd = process.cwd();
+    let manifest: Manifest;
+
+    beforeAll(async () => {
+        process.chdir(fixture.root);
+        await build({
+            root: fixture.root,
+            configFile: join(fixture.root, "vite.config.js"),
+            logLevel: "silent",
+            plugins: [
+                wordpress({
+                    namespace: "test",
+                    input: {
+                        app: "src/app.js",
+                        legacy: { path: "src/legacy.js", format: "iife" },
+                    },
+                    publicDirectory: "public",
+                    phpLoader: false,
+                }),
+            ],
+        });
+        manifest = JSON.parse(read("manifest.json"));
+    });
+
+    afterAll(() => {
+        process.chdir(cwd);
+        fixture.remove();
+    });
+
+    it("builds the entry as a classic script with the project's plugins", () => {
+        expect(manifest["src/legacy.js"]).toMatchObject({
+            name: "legacy",
+            isEntry: true,
+            format: "iife",
+        });
+
+        const script = read(manifest["src/legacy.js"].file);
+        expect(script).toMatch(/^\(function/);
+        expect(script).toContain("transformed");
+    });
+
+    it("leaves the project's plugins of the main build alone", () => {
+        expect(readFileSync(join(fixture.root, "write.txt"), "utf-8")).toBe(
+            "true"
+        );
+    });
+});
@@ -0,0 +1,69 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer as createViteServer, ViteDevServer } from "vite";
+import wpProxy from "../src/proxy";
+import { createFixture } from "./fixture";
+
+const listen = async (server: Server): Promise<string> => {
+    await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve)
+    );
+
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const close = (server: Server) =>
+    new Promise((resolve) => server.close(resolve));
+
+describe("wordpress:proxy", () => {
+    const fixture = createFixture({ "src/app.js": 'console.log("app");' });
+    const pages: Record<string, string> = {
+        "/": "<html><head><title>Site</title></head><body></body></html>",
+        "/enqueued/":
+            '<html><head><script type="module" src="http://localhost:5173/@vite/client"></script></head></html>',
+    };
+    const site = createServer((req, res) => {
+        res.setHeader("Content-Type", "text/html");
+        res.end(pages[req.url ?? "/"]);
+    });
+    let vite: ViteDevServer;
+    let proxy: Server;
+    let origin: string;
+
+    beforeAll(async () => {
+        const target = await listen(site);
+        vite = await createViteServer({
+            root: fixture.root,
+            configFile: false,
+            logLevel: "silent",
+            appType: "custom",
+            server: { middlewareMode: true, hmr: false, ws: false },
+            optimizeDeps: { noDiscovery: true, include: [] },
+            plugins: [wpProxy({ target })],
+        });
+        proxy = createServer(vite.middlewares);
+        origin = await listen(proxy);
+    });
+
+    afterAll(async () => {
+        await close(proxy);
+        await close(site);
+        await vite.close();
+        fixture.remove();
+    });
+
+    it("injects the Vite client into the pages of the site", async () => {
+        const html = await (await fetch(`${origin}/`)).text();
+
+        expect(html).toBe(
+            '<html><head><title>Site</title><script type="module" src="/@vite/client"></script></head><body></body></html>'
+        );
+    });
+
+    it("leaves the entries and an enqueued client to the PHP loader", async () => {
+        const html = await (await fetch(`${origin}/enqueued/`)).text();
+
+        expect(html).toBe(pages["/enqueued/"]);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { Plugin, ViteDevServer } from "vite";
+import { wordpress } from "../src";
+
+const root = "/project";
+
+/**
+ * The actions the refresh plugin sends to the pages for each changed file.
+ */
+const refreshActions = (
+    refresh: Parameters<typeof wordpress>[0]["refresh"],
+    files: string[]
+): (string | undefined)[] => {
+    const plugin = wordpress({
+        namespace: "test",
+        input: "src/app.js",
+        refresh,
+    }).find((plugin): plugin is Plugin => plugin.name === "wordpress:refresh");
+    const listeners: ((file: string) => void)[] = [];
+    let action: string | undefined;
+
+    const server = {
+        config: { root, logger: { info: () => undefined } },
+        watcher: {
+            add: () => undefined,
+            on: (event: string, listener: (file: string) => void) =>
+                event === "change" && listeners.push(listener),
+        },
+        middlewares: { use: () => undefined },
+        ws: {
+            send: ({ data }: { data: { action: string } }) =>
+                (action = data.action),
+        },
+    } as unknown as ViteDevServer;
+    (plugin?.configureServer as (server: ViteDevServer) => void)(server);
+
+    return files.map((file) => {
+        action = undefined;
+        listeners.forEach((listener) => listener(`${root}/${file}`));
+
+        return action;
+    });
+};
+
+describe("wordpress:refresh", () => {
+    it("reacts to the files of the preset", () => {
+        expect(
+            refreshActions("theme", [
+                "functions.php",
+                "blocks/foo/block.json",
+                "styles/dark.json",
+                "src/app.js",
+            ])
+        ).toEqual(["full-reload", "editor-reload", "global-styles", undefined]);
+    });
+
+    it("lets paths with an action override the preset, wherever they are listed", () => {
+        const rule = { paths: ["patterns/**/*.php"], action: "none" as const };
+
+        [
+            ["theme", rule],
+            [rule, "theme"],
+        ].forEach((refresh) =>
+            expect(
+                refreshActions(refresh, ["patterns/hero.php", "functions.php"])
+            ).toEqual([undefined, "full-reload"])
+        );
+    });
+});
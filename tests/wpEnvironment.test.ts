@@ -0,0 +1,68 @@
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { detectWordpressLayout } from "../src/wpEnvironment";
+import { createFixture } from "./fixture";
+
+const theme = "web/app/themes/theme";
+
+describe("detectWordpressLayout", () => {
+    let fixture: ReturnType<typeof createFixture>;
+
+    afterEach(() => fixture.remove());
+
+    it("finds the Bedrock project a theme lives in", () => {
+        fixture = createFixture({
+            "web/wp/wp-load.php": "<?php",
+            "web/wp-config.php": "<?php",
+            [`${theme}/style.css`]: "",
+        });
+        const web = join(fixture.root, "web");
+
+        expect(detectWordpressLayout(join(fixture.root, theme))).toEqual({
+            type: "bedrock",
+            root: web,
+            coreDirectory: join(web, "wp"),
+            contentDirectory: join(web, "app"),
+            uploadsDirectory: join(web, "app/uploads"),
+        });
+    });
+
+    it.each([
+        ["its config", { "config/application.php": "<?php" }],
+        [
+            "its Composer requirements",
+            {
+                "composer.json": JSON.stringify({
+                    require: { "roots/wordpress": "^6.0" },
+                }),
+            },
+        ],
+    ])("recognises a Bedrock project by %s", (_, files) => {
+        fixture = createFixture({
+            ...files,
+            "web/wp/wp-load.php": "<?php",
+            "packages/plugin/plugin.php": "<?php",
+        });
+
+        expect(
+            detectWordpressLayout(join(fixture.root, "packages/plugin"))
+        ).toMatchObject({
+            type: "bedrock",
+            coreDirectory: join(fixture.root, "web/wp"),
+        });
+    });
+
+    it("does not take any `wp` directory for Bedrock", () => {
+        fixture = createFixture({
+            "wp/wp-load.php": "<?php",
+            "composer.json": JSON.stringify({
+                require: { "wp-cli/wp-cli": "^2.0" },
+            }),
+            "plugin/plugin.php": "<?php",
+        });
+
+        expect(detectWordpressLayout(join(fixture.root, "plugin")).type).toBe(
+            "unknown"
+        );
+    });
+});